@@ -1,8 +1,60 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import MatrixInput from './components/MatrixInput';
-import { Commodity, InputMatrix, ComputedMetrics } from './types';
-import { calculateSraffianPrices, calculateMaxProfitRate } from './utils/math';
+import StandardSystemPanel from './components/StandardSystemPanel';
+import FrontierChart from './components/FrontierChart';
+import FixedCapitalPanel from './components/FixedCapitalPanel';
+import LandPanel from './components/LandPanel';
+import TechniquePanel from './components/TechniquePanel';
+import ReductionPanel from './components/ReductionPanel';
+import NumeraireSelector from './components/NumeraireSelector';
+import LabourValuePanel from './components/LabourValuePanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import IOImportPanel from './components/IOImportPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import TechnicalChangePanel from './components/TechnicalChangePanel';
+import SensitivityPanel from './components/SensitivityPanel';
+import HistoryPanel from './components/HistoryPanel';
+import QuantityPanel from './components/QuantityPanel';
+import FinalDemandPanel from './components/FinalDemandPanel';
+import LabourTypesPanel from './components/LabourTypesPanel';
+import ProfitRatesPanel from './components/ProfitRatesPanel';
+import GravitationPanel from './components/GravitationPanel';
+import { Commodity, InputMatrix, OutputMatrix, ComputedMetrics, ProductionOptions, FixedCapitalSpec, LandSpec, AlternativeMethod, NumeraireSpec, WageClosure, Scenario, ScenarioMetadata, ArithmeticMode, TechnicalChangeSpec, SystemState, Snapshot, EditHistory, LabourType, GravitationSpec } from './types';
+import {
+  calculateSraffianPrices,
+  calculateMaxProfitRate,
+  calculateReductionToDatedLabour,
+  calculateDatedTermCurves,
+  singleProductOutputMatrix,
+  wageCharge,
+  industryProfitRates,
+  buildCoefficientMatrix,
+  invertMatrix,
+  multiplyMatrices
+} from './utils/math';
+import { analyzePerronFrobenius } from './utils/spectral';
+import { analyzeExactSystem, getExactNumeraireBasket, resolveExactWage } from './utils/exact';
+import { formatFraction, fractionEquals, fractionMul, fractionToNumber } from './utils/fraction';
+import { diagnoseSystem } from './utils/diagnostics';
+import { calculateStandardSystem, checkStandardWageRelation } from './utils/standard';
+import { calculateWageProfitFrontier } from './utils/frontier';
+import { analyzeReducibility } from './utils/reducibility';
+import { analyzeFixedCapital } from './utils/fixedCapital';
+import { analyzeLand, createDefaultLandSpec } from './utils/land';
+import { analyzeChoiceOfTechnique } from './utils/technique';
+import { analyzeTechnicalChange } from './utils/technicalChange';
+import { analyzePriceSensitivity } from './utils/sensitivity';
+import { calculateMaxGrowthRate, calculateQuantitySystem, cambridgeProfitRate } from './utils/quantity';
+import { analyzeFinalDemand, rescaleSystem } from './utils/leontief';
+import { analyzeProfitHierarchy } from './utils/profitRates';
+import { simulateGravitation } from './utils/gravitation';
+import { addLabourType, applyLabourTypes, createLabourTypes, reduceLabour, removeLabourType, wageSharesByType } from './utils/labour';
+import { getNumeraireBasket, resolveWage, describeNumeraire, calculateNetProduct } from './utils/numeraire';
+import { calculateLabourValues, analyzeLabourValues } from './utils/values';
+import { createScenario, decodeScenarioFromUrl, EMPTY_METADATA, SCENARIO_URL_PARAM } from './utils/scenario';
+import { createHistory, recordHistory, undoHistory, redoHistory, CURRENT_STATE } from './utils/history';
+import { compareStates } from './utils/compare';
 import { analyzeEconomy } from './services/gemini';
 
 // Initial State: A simple 2-sector surplus system
@@ -17,29 +69,345 @@ const INITIAL_MATRIX: InputMatrix = [
   [12, 8],    // Iron inputs into [Wheat Ind, Iron Ind]
 ];
 
+const INITIAL_GRAVITATION: GravitationSpec = {
+  rule: 'damped',
+  priceSpeed: 0.1,
+  quantitySpeed: 0.3,
+  steps: 200,
+  initialPrices: [1.1, 0.95],
+  initialQuantities: [1, 1.05]
+};
+
 const App: React.FC = () => {
   const [commodities, setCommodities] = useState<Commodity[]>(INITIAL_COMMODITIES);
   const [matrix, setMatrix] = useState<InputMatrix>(INITIAL_MATRIX);
+  const [outputMatrix, setOutputMatrix] = useState<OutputMatrix | null>(null); // null = single-product industries
   const [profitRate, setProfitRate] = useState<number>(0.15); // 15%
-  const [wage, setWage] = useState<number>(1.0);
+  const [numeraire, setNumeraire] = useState<NumeraireSpec>({ kind: 'wage', wage: 1.0 });
+  const [wageClosure, setWageClosure] = useState<WageClosure>('postFactum');
+  const [arithmetic, setArithmetic] = useState<ArithmeticMode>('float');
+  const [frontierNumeraire, setFrontierNumeraire] = useState<number>(0);
+  const [fixedCapital, setFixedCapital] = useState<FixedCapitalSpec | null>(null);
+  const [landSpec, setLandSpec] = useState<LandSpec | null>(null);
+  const [alternatives, setAlternatives] = useState<AlternativeMethod[]>([]);
+  const [technicalChange, setTechnicalChange] = useState<TechnicalChangeSpec | null>(null);
+  const [labourTypes, setLabourTypes] = useState<LabourType[] | null>(null); // null = uniform labour
+  const [profitFactors, setProfitFactors] = useState<number[] | null>(null); // null = uniform rate of profit
+  const [reductionCommodity, setReductionCommodity] = useState<number>(0);
+  const [reductionDepth, setReductionDepth] = useState<number>(20);
+  const [sensitivityCommodity, setSensitivityCommodity] = useState<number>(0);
+  const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
+  const [growthRate, setGrowthRate] = useState<number>(0.05);
+  const [savingsPropensity, setSavingsPropensity] = useState<number>(1.0);
+  const [finalDemand, setFinalDemand] = useState<number[] | null>(null); // null = the actual net product
+  const [gravitation, setGravitation] = useState<GravitationSpec>(INITIAL_GRAVITATION);
+  const [metadata, setMetadata] = useState<ScenarioMetadata>(EMPTY_METADATA);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [history, setHistory] = useState<EditHistory | null>(null); // Starts from the first state rendered
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [compareIds, setCompareIds] = useState<[number | null, number | null]>([null, null]);
   
   const [analysis, setAnalysis] = useState<string>("");
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
 
+  const scenario = useMemo(() => createScenario({
+    commodities,
+    matrix,
+    outputMatrix,
+    alternativeMethods: alternatives,
+    profitRate,
+    numeraire,
+    wageClosure,
+    fixedCapital,
+    landSpec,
+    technicalChange,
+    labourTypes,
+    profitFactors
+  }, metadata), [commodities, matrix, outputMatrix, alternatives, profitRate, numeraire, wageClosure, fixedCapital, landSpec, technicalChange, labourTypes, profitFactors, metadata]);
+
+  const applyState = (state: SystemState) => {
+    setCommodities(state.commodities);
+    setMatrix(state.matrix);
+    setOutputMatrix(state.outputMatrix ?? null);
+    setAlternatives(state.alternativeMethods ?? []);
+    setProfitRate(state.profitRate);
+    setNumeraire(state.numeraire ?? { kind: 'wage', wage: 1.0 });
+    setWageClosure(state.wageClosure ?? 'postFactum');
+    setFixedCapital(state.fixedCapital ?? null);
+    setLandSpec(state.landSpec ?? null);
+    setTechnicalChange(state.technicalChange ?? null);
+    setLabourTypes(state.labourTypes ?? null);
+    setProfitFactors(state.profitFactors ?? null);
+    setAnalysis("");
+  };
+
+  const applyScenario = (loaded: Scenario) => {
+    applyState(loaded.state);
+    setMetadata(loaded.metadata);
+  };
+
+  // Every edit of the system lands in the undo history; restoring a recorded state is not an edit
+  useEffect(() => {
+    setHistory(h => (h ? recordHistory(h, scenario.state, Date.now()) : createHistory(scenario.state)));
+  }, [scenario.state]);
+
+  const handleUndo = () => {
+    if (!history) return;
+    const next = undoHistory(history);
+    setHistory(next);
+    applyState(next.present);
+  };
+
+  const handleRedo = () => {
+    if (!history) return;
+    const next = redoHistory(history);
+    setHistory(next);
+    applyState(next.present);
+  };
+
+  const handleSaveSnapshot = (name: string) => {
+    const id = Math.max(0, ...snapshots.map(s => s.id)) + 1;
+    setSnapshots([...snapshots, { id, name, createdAt: new Date().toISOString(), state: scenario.state }]);
+  };
+
+  const snapshotComparison = useMemo(() => {
+    const stateOf = (id: number | null) =>
+      id === CURRENT_STATE ? scenario.state : snapshots.find(s => s.id === id)?.state ?? null;
+    const before = stateOf(compareIds[0]);
+    const after = stateOf(compareIds[1]);
+    return before && after ? compareStates(before, after) : null;
+  }, [compareIds, snapshots, scenario.state]);
+
+  // A scenario shared by link arrives in the location hash
+  useEffect(() => {
+    const match = window.location.hash.match(new RegExp(`${SCENARIO_URL_PARAM}=([^&]+)`));
+    if (!match) return;
+    const result = decodeScenarioFromUrl(match[1]);
+    if (result.scenario) applyScenario(result.scenario);
+    setLoadErrors(result.errors);
+  }, []);
+
+  const productionOptions: ProductionOptions = useMemo(() => ({ outputMatrix, wageClosure }), [outputMatrix, wageClosure]);
+  // The price system proper, R and the frontier take the hierarchy of profit rates; analyses
+  // built on a uniform rate keep productionOptions
+  const pricingOptions: ProductionOptions = useMemo(
+    () => (profitFactors ? { ...productionOptions, profitFactors } : productionOptions),
+    [productionOptions, profitFactors]
+  );
+
+  // The basic/non-basic distinction is only drawn for single-product systems
+  const reducibility = useMemo(() => (outputMatrix ? null : analyzeReducibility(matrix)), [matrix, outputMatrix]);
+
+  const standardSystem = useMemo(() => {
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return calculateStandardSystem(matrix, laborVector, totalOutputs, reducibility?.basicIndices, productionOptions);
+  }, [commodities, matrix, reducibility, productionOptions]);
+
+  // Prices at w = 1; every price is proportional to the wage, so this fixes w in any numeraire
+  const unitWagePrices = useMemo(() => {
+    if (numeraire.kind === 'wage') return [];
+    if (landSpec && !outputMatrix) {
+      return analyzeLand(commodities, matrix, landSpec, profitRate, wageCharge(1, profitRate, productionOptions))?.prices ?? [];
+    }
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return calculateSraffianPrices(matrix, laborVector, totalOutputs, profitRate, 1, pricingOptions).prices;
+  }, [numeraire.kind, commodities, matrix, outputMatrix, landSpec, profitRate, productionOptions, pricingOptions]);
+
+  const resolvedWage = useMemo(() => {
+    const basket = getNumeraireBasket(numeraire, commodities, matrix, outputMatrix, standardSystem);
+    return resolveWage(numeraire, unitWagePrices, basket);
+  }, [numeraire, commodities, matrix, outputMatrix, standardSystem, unitWagePrices]);
+
+  // An undefined numeraire (e.g. a basket worth nothing) leaves prices at w = 1
+  const wage = resolvedWage ?? 1.0;
+
+  // With scarce land the price of the crop is set on the marginal land (single-product systems only).
+  // Land, fixed capital and the reduction take the wage charge, which already allows for advanced wages.
+  const landAnalysis = useMemo(() => {
+    if (!landSpec || outputMatrix) return null;
+    return analyzeLand(commodities, matrix, landSpec, profitRate, wageCharge(wage, profitRate, productionOptions));
+  }, [commodities, matrix, outputMatrix, landSpec, profitRate, wage, productionOptions]);
+
+  // R of a reducible system is determined by its basic sub-system
+  const maxProfitRate = useMemo(
+    () => calculateMaxProfitRate(matrix, commodities.map(c => c.totalOutput), reducibility?.basicIndices, pricingOptions),
+    [commodities, matrix, reducibility, pricingOptions]
+  );
+
+  // Exact rational prices, when selected; scarce land and a hierarchy of profit rates keep the floating-point path
+  const exactSystem = useMemo(() => {
+    if (arithmetic !== 'exact' || (landSpec && !outputMatrix) || profitFactors) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return analyzeExactSystem(matrix, laborVector, totalOutputs, profitRate, maxProfitRate, productionOptions);
+  }, [arithmetic, landSpec, outputMatrix, profitFactors, commodities, matrix, profitRate, maxProfitRate, productionOptions]);
+
+  const exactPrices = useMemo(() => {
+    if (!exactSystem) return null;
+    const basket = getExactNumeraireBasket(numeraire, commodities, matrix, outputMatrix, exactSystem);
+    const exactWage = resolveExactWage(numeraire, exactSystem, basket);
+    if (!exactWage) return null;
+    return { wage: exactWage, prices: exactSystem.unitWagePrices.map(p => fractionMul(p, exactWage)) };
+  }, [exactSystem, numeraire, commodities, matrix, outputMatrix]);
+
   const metrics: ComputedMetrics = useMemo(() => {
     const laborVector = commodities.map(c => c.laborInput);
     const totalOutputs = commodities.map(c => c.totalOutput);
     
-    const maxProfitRate = calculateMaxProfitRate(matrix, totalOutputs);
-    const result = calculateSraffianPrices(matrix, laborVector, totalOutputs, profitRate, wage);
+    const prices = exactPrices
+      ? exactPrices.prices.map(fractionToNumber)
+      : landAnalysis
+        ? landAnalysis.prices
+        : calculateSraffianPrices(matrix, laborVector, totalOutputs, profitRate, wage, pricingOptions).prices;
+    const labourValues = calculateLabourValues(matrix, laborVector, totalOutputs, productionOptions);
+
+    // Exact prices carry their sign exactly, so no tolerance is needed
+    const diagnostics = diagnoseSystem(commodities, matrix, prices, profitRate, maxProfitRate, pricingOptions, exactPrices ? 0 : 1e-6);
+    if (landAnalysis && !landAnalysis.isValid && diagnostics.pricesPositive) {
+      diagnostics.issues.push({ severity: 'warning', message: 'Some cultivated land pays a negative rent.' });
+    }
     
     return {
-      prices: result.prices,
-      isValid: result.isValid,
-      wage: wage, 
-      maxProfitRate: maxProfitRate
+      prices,
+      diagnostics,
+      wage: exactPrices ? fractionToNumber(exactPrices.wage) : wage, 
+      maxProfitRate: maxProfitRate,
+      labourValues
     };
-  }, [commodities, matrix, profitRate, wage]);
+  }, [commodities, matrix, maxProfitRate, exactPrices, productionOptions, pricingOptions, landAnalysis, profitRate, wage]);
+
+  // Values are compared with prices of the circulating-capital system only; rent has no value counterpart here
+  const valueAnalysis = useMemo(() => {
+    if (landAnalysis) return null;
+    return analyzeLabourValues(commodities, matrix, metrics.prices, metrics.wage, profitRate, metrics.labourValues, outputMatrix, wageClosure, profitFactors);
+  }, [landAnalysis, commodities, matrix, metrics, profitRate, outputMatrix, wageClosure, profitFactors]);
+
+  // Spectrum of A, or of B^-1 A under joint production, whose dominant root gives R
+  const spectralAnalysis = useMemo(() => {
+    if (outputMatrix) {
+      const B_inv = invertMatrix(outputMatrix);
+      return B_inv ? analyzePerronFrobenius(multiplyMatrices(B_inv, matrix)) : null;
+    }
+    return analyzePerronFrobenius(buildCoefficientMatrix(matrix, commodities.map(c => c.totalOutput)));
+  }, [commodities, matrix, outputMatrix]);
+
+  const standardWageCheck = useMemo(() => {
+    if (!standardSystem) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return checkStandardWageRelation(standardSystem, matrix, laborVector, totalOutputs, profitRate, productionOptions);
+  }, [standardSystem, commodities, matrix, productionOptions, profitRate]);
+
+  const frontier = useMemo(() => {
+    if (metrics.maxProfitRate === null) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    const numeraire = Math.min(frontierNumeraire, commodities.length - 1);
+    return calculateWageProfitFrontier(matrix, laborVector, totalOutputs, metrics.maxProfitRate, numeraire, pricingOptions);
+  }, [commodities, matrix, pricingOptions, metrics.maxProfitRate, frontierNumeraire]);
+
+  const fixedCapitalAnalysis = useMemo(() => {
+    if (!fixedCapital) return null;
+    return analyzeFixedCapital(commodities, matrix, fixedCapital, profitRate, wageCharge(wage, profitRate, productionOptions), outputMatrix);
+  }, [commodities, matrix, outputMatrix, fixedCapital, profitRate, wage, productionOptions]);
+
+  const techniqueAnalysis = useMemo(() => {
+    if (alternatives.length === 0 || outputMatrix) return null;
+    const numeraire = Math.min(frontierNumeraire, commodities.length - 1);
+    return analyzeChoiceOfTechnique(commodities, matrix, alternatives, numeraire);
+  }, [commodities, matrix, outputMatrix, alternatives, frontierNumeraire]);
+
+  // Balanced growth of the circulating-capital system, dual to its prices; g is kept below the
+  // von Neumann rate G of the whole system, which a non-basic can hold below R.
+  // The duality at r = g holds for a uniform rate of profit only
+  const quantitySystem = useMemo(() => {
+    if (landAnalysis || profitFactors || metrics.maxProfitRate === null || metrics.maxProfitRate <= 0) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    const maxGrowthRate = calculateMaxGrowthRate(matrix, totalOutputs, productionOptions);
+    if (maxGrowthRate <= 0) return null;
+    const g = Math.min(growthRate, maxGrowthRate * (1 - 1e-6));
+    return calculateQuantitySystem(matrix, laborVector, totalOutputs, g, maxGrowthRate, standardSystem, productionOptions);
+  }, [landAnalysis, profitFactors, commodities, matrix, metrics.maxProfitRate, growthRate, standardSystem, productionOptions]);
+
+  const cambridge = useMemo(
+    () => (quantitySystem && metrics.maxProfitRate !== null ? cambridgeProfitRate(quantitySystem.growthRate, savingsPropensity, metrics.maxProfitRate) : null),
+    [quantitySystem, savingsPropensity, metrics.maxProfitRate]
+  );
+
+  // Demand-driven outputs of the single-product system; by default the actual net product is the final demand
+  const netProduct = useMemo(() => calculateNetProduct(commodities, matrix), [commodities, matrix]);
+  const finalDemandAnalysis = useMemo(() => {
+    if (outputMatrix) return null;
+    return analyzeFinalDemand(commodities, matrix, finalDemand ? commodities.map((_, i) => finalDemand[i] ?? 0) : netProduct);
+  }, [commodities, matrix, outputMatrix, finalDemand, netProduct]);
+
+  const handleRescaleToDemand = () => {
+    if (!finalDemandAnalysis) return;
+    const rescaled = rescaleSystem(commodities, matrix, finalDemandAnalysis.grossOutputs);
+    setCommodities(rescaled.commodities);
+    setMatrix(rescaled.matrix);
+    setFinalDemand(null);
+  };
+
+  // Derivatives of the prices shown; scarce land prices the crop outside this system
+  const sensitivity = useMemo(() => {
+    if (landAnalysis || profitFactors) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    const basket = resolvedWage === null ? null : getNumeraireBasket(numeraire, commodities, matrix, outputMatrix, standardSystem);
+    return analyzePriceSensitivity(matrix, laborVector, totalOutputs, profitRate, wage, productionOptions, basket);
+  }, [landAnalysis, profitFactors, commodities, matrix, outputMatrix, numeraire, standardSystem, resolvedWage, profitRate, wage, productionOptions]);
+
+  const heatmap = useMemo(() => {
+    if (!sensitivity || !showHeatmap) return null;
+    const k = Math.min(sensitivityCommodity, commodities.length - 1);
+    return { inputs: sensitivity.inputElasticities[k], labor: sensitivity.laborElasticities[k] };
+  }, [sensitivity, showHeatmap, sensitivityCommodity, commodities.length]);
+
+  // Technical change is judged at the prices of the circulating-capital system, without land
+  const technicalChangeAnalysis = useMemo(() => {
+    if (!technicalChange || landAnalysis || !metrics.prices.length) return null;
+    const numeraire = Math.min(frontierNumeraire, commodities.length - 1);
+    return analyzeTechnicalChange(commodities, matrix, technicalChange, metrics.prices, metrics.wage, profitRate, numeraire, pricingOptions);
+  }, [technicalChange, landAnalysis, commodities, matrix, metrics, profitRate, frontierNumeraire, pricingOptions]);
+
+  // Market prices out of equilibrium around the prices shown: single-product circulating capital at a uniform rate
+  const gravitationResult = useMemo(() => {
+    if (outputMatrix || landAnalysis || profitFactors || !metrics.prices.length) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return simulateGravitation(matrix, laborVector, totalOutputs, metrics.prices, metrics.wage, gravitation, productionOptions);
+  }, [outputMatrix, landAnalysis, profitFactors, commodities, matrix, metrics, gravitation, productionOptions]);
+
+  // Prices at the uniform base rate, in the same numeraire, set against the hierarchy
+  const profitHierarchy = useMemo(() => {
+    if (!profitFactors || landAnalysis || !metrics.prices.length) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    const unitPrices = calculateSraffianPrices(matrix, laborVector, totalOutputs, profitRate, 1, productionOptions).prices;
+    const basket = getNumeraireBasket(numeraire, commodities, matrix, outputMatrix, standardSystem);
+    const uniformWage = resolveWage(numeraire, unitPrices, basket) ?? 1.0;
+    return analyzeProfitHierarchy(
+      matrix, laborVector, profitRate, metrics.prices, metrics.wage, unitPrices.map(p => p * uniformWage), uniformWage, pricingOptions
+    );
+  }, [profitFactors, landAnalysis, commodities, matrix, outputMatrix, numeraire, standardSystem, metrics, profitRate, productionOptions, pricingOptions]);
+
+  // Dated labour compounds at a single rate, so a hierarchy of profit rates sets the reduction aside
+  const reduction = useMemo(() => {
+    if (outputMatrix || profitFactors) return null;
+    const laborVector = commodities.map(c => c.laborInput);
+    const totalOutputs = commodities.map(c => c.totalOutput);
+    return calculateReductionToDatedLabour(matrix, laborVector, totalOutputs, profitRate, wageCharge(wage, profitRate, productionOptions), reductionDepth);
+  }, [commodities, matrix, outputMatrix, profitFactors, profitRate, wage, productionOptions, reductionDepth]);
+
+  const datedTermCurves = useMemo(() => {
+    if (!reduction || metrics.maxProfitRate === null) return [];
+    const commodity = Math.min(reductionCommodity, commodities.length - 1);
+    return calculateDatedTermCurves(reduction.datedLabour.map(L => L[commodity]), metrics.maxProfitRate);
+  }, [reduction, metrics.maxProfitRate, reductionCommodity, commodities.length]);
 
   // Calculate National Accounts (Aggregates)
   const aggregates = useMemo(() => {
@@ -48,56 +416,124 @@ const App: React.FC = () => {
     let totalCapital = 0;
     let totalWages = 0;
     let totalGrossOutput = 0;
+    const wagesByType = labourTypes ? labourTypes.map(() => 0) : null;
 
     // Calculate Total Wages and Total Gross Output
     commodities.forEach((c, idx) => {
         const p = metrics.prices[idx] || 0;
-        totalGrossOutput += p * c.totalOutput;
-        totalWages += metrics.wage * c.laborInput;
+        // Under joint production a commodity's output is the sum over all processes
+        const output = outputMatrix ? outputMatrix[idx].reduce((s, b) => s + b, 0) : c.totalOutput;
+        totalGrossOutput += p * output;
+        // On land, the crop is grown with the methods of the cultivated lands
+        const labor = landAnalysis && landSpec?.crop === idx ? landAnalysis.cropLabor : c.laborInput;
+        totalWages += metrics.wage * labor;
+        // Each industry's wage bill splits by type in proportion to its reduced hours of each
+        if (labourTypes && wagesByType) {
+          wageSharesByType(c, labourTypes).forEach((share, k) => { wagesByType[k] += metrics.wage * labor * share; });
+        }
     });
 
     // Calculate Total Capital (Value of Means of Production)
     // Matrix: rows = inputs, cols = outputs
     // Loop through columns (industries) to sum up the value of inputs used
+    // Each industry earns its own rate on its capital; land is priced at the uniform rate
+    const rates = industryProfitRates(profitRate, commodities.length, landAnalysis ? productionOptions : pricingOptions);
+    let totalProfits = 0;
     for (let j = 0; j < commodities.length; j++) {
         let industryCapital = 0;
         for (let i = 0; i < commodities.length; i++) {
-            const inputAmount = matrix[i][j];
+            const inputAmount = landAnalysis && landSpec?.crop === j ? landAnalysis.cropInputs[i] : matrix[i][j];
             const p = metrics.prices[i] || 0;
             industryCapital += p * inputAmount;
         }
         totalCapital += industryCapital;
+        // With wages advanced, profits are earned on the wage bill as well
+        const labor = landAnalysis && landSpec?.crop === j ? landAnalysis.cropLabor : commodities[j].laborInput;
+        totalProfits += rates[j] * (wageClosure === 'anteFactum' ? industryCapital + metrics.wage * labor : industryCapital);
     }
 
-    const totalProfits = totalCapital * profitRate;
+    const totalRents = landAnalysis ? landAnalysis.totalRent : 0;
     
-    // Net Product (National Income) = Wages + Profits
+    // Net Product (National Income) = Wages + Profits + Rents
     // This is equivalent to Gross Output - Replacement Capital
-    const netProduct = totalWages + totalProfits; 
+    const netProduct = totalWages + totalProfits + totalRents; 
     
     // Prevent division by zero for shares
     const denom = netProduct === 0 ? 1 : netProduct;
 
     return {
         totalWages,
+        wagesByType,
         totalProfits,
+        totalRents,
         netProduct,
         totalCapital,
         wageShare: (totalWages / denom) * 100,
-        profitShare: (totalProfits / denom) * 100
+        profitShare: (totalProfits / denom) * 100,
+        rentShare: (totalRents / denom) * 100
     };
-  }, [metrics, commodities, matrix, profitRate]);
+  }, [metrics, commodities, matrix, outputMatrix, landAnalysis, landSpec, profitRate, wageClosure, labourTypes, productionOptions, pricingOptions]);
 
   const handleMatrixUpdate = (newMatrix: InputMatrix) => {
     setMatrix(newMatrix);
   };
 
+  const handleOutputMatrixUpdate = (newOutputMatrix: OutputMatrix) => {
+    setOutputMatrix(newOutputMatrix);
+  };
+
+  const handleToggleJointProduction = () => {
+    if (outputMatrix) {
+      // Back to single-product industries: each process keeps its own product only
+      setCommodities(commodities.map((c, i) => ({ ...c, totalOutput: outputMatrix[i][i] })));
+      setOutputMatrix(null);
+    } else {
+      setOutputMatrix(singleProductOutputMatrix(commodities.map(c => c.totalOutput)));
+    }
+  };
+
   const handleCommodityUpdate = (index: number, field: keyof Commodity, value: any) => {
     const newComms = [...commodities];
     newComms[index] = { ...newComms[index], [field]: value };
     setCommodities(newComms);
   };
 
+  const handleLabourByTypeUpdate = (index: number, type: number, hours: number) => {
+    if (!labourTypes) return;
+    const newComms = [...commodities];
+    const laborByType = labourTypes.map((_, k) => (k === type ? hours : newComms[index].laborByType?.[k] ?? 0));
+    newComms[index] = { ...newComms[index], laborByType, laborInput: reduceLabour(laborByType, labourTypes) };
+    setCommodities(newComms);
+  };
+
+  const handleEnableLabourTypes = () => {
+    const split = createLabourTypes(commodities);
+    setLabourTypes(split.types);
+    setCommodities(split.commodities);
+  };
+
+  const handleAddLabourType = () => {
+    if (!labourTypes) return;
+    const added = addLabourType(commodities, labourTypes, `Type ${labourTypes.length + 1}`, 1);
+    setLabourTypes(added.types);
+    setCommodities(added.commodities);
+  };
+
+  const handleRemoveLabourType = (index: number) => {
+    if (!labourTypes) return;
+    const removed = removeLabourType(commodities, labourTypes, index);
+    setLabourTypes(removed.types);
+    setCommodities(removed.commodities);
+  };
+
+  // A new relative wage changes every industry's reduced labour
+  const handleLabourTypeUpdate = (index: number, field: 'name' | 'relativeWage', value: string | number) => {
+    if (!labourTypes) return;
+    const newTypes = labourTypes.map((t, k) => (k === index ? { ...t, [field]: value } : t));
+    setLabourTypes(newTypes);
+    if (field === 'relativeWage') setCommodities(applyLabourTypes(commodities, newTypes));
+  };
+
   const handleAddCommodity = () => {
     const newId = (Math.max(...commodities.map(c => c.id)) || 0) + 1;
     const newComm: Commodity = { 
@@ -106,12 +542,33 @@ const App: React.FC = () => {
       totalOutput: 100, 
       laborInput: 10 
     };
+    if (labourTypes) {
+      // New hours go to the first type
+      newComm.laborByType = labourTypes.map((_, k) => (k === 0 ? 10 : 0));
+      newComm.laborInput = reduceLabour(newComm.laborByType, labourTypes);
+    }
     
     setCommodities([...commodities, newComm]);
     
     const intermediateMatrix = matrix.map(row => [...row, 0]);
     const newRow = new Array(commodities.length + 1).fill(0);
     setMatrix([...intermediateMatrix, newRow]);
+
+    if (profitFactors) setProfitFactors([...profitFactors, 1]);
+
+    if (technicalChange) {
+      setTechnicalChange({
+        ...technicalChange,
+        inputs: [...technicalChange.inputs, 0],
+        wageBasket: technicalChange.wageBasket ? [...technicalChange.wageBasket, 0] : null
+      });
+    }
+
+    if (outputMatrix) {
+      const newOutputRow = new Array(commodities.length + 1).fill(0);
+      newOutputRow[commodities.length] = newComm.totalOutput;
+      setOutputMatrix([...outputMatrix.map(row => [...row, 0]), newOutputRow]);
+    }
   };
 
   const handleRemoveCommodity = (index: number) => {
@@ -125,11 +582,72 @@ const App: React.FC = () => {
       
     setCommodities(newComms);
     setMatrix(newMatrix);
+    setFixedCapital(null);
+    setLandSpec(null);
+    setFinalDemand(null);
+    setProfitFactors(profitFactors?.filter((_, i) => i !== index) ?? null);
+    setGravitation({
+      ...gravitation,
+      initialPrices: gravitation.initialPrices.filter((_, i) => i !== index),
+      initialQuantities: gravitation.initialQuantities.filter((_, i) => i !== index)
+    });
+    setTechnicalChange(
+      technicalChange && technicalChange.industry !== index
+        ? {
+            ...technicalChange,
+            industry: technicalChange.industry > index ? technicalChange.industry - 1 : technicalChange.industry,
+            inputs: technicalChange.inputs.filter((_, i) => i !== index),
+            wageBasket: technicalChange.wageBasket?.filter((_, i) => i !== index) ?? null
+          }
+        : null
+    );
+    if (numeraire.kind === 'commodity') {
+      const commodity = numeraire.commodity === index ? 0 : numeraire.commodity - (numeraire.commodity > index ? 1 : 0);
+      setNumeraire({ kind: 'commodity', commodity });
+    } else if (numeraire.kind === 'basket') {
+      setNumeraire({ kind: 'basket', weights: numeraire.weights.filter((_, i) => i !== index) });
+    }
+    setAlternatives(
+      alternatives
+        .filter(a => a.industry !== index)
+        .map(a => ({
+          ...a,
+          industry: a.industry > index ? a.industry - 1 : a.industry,
+          inputs: a.inputs.filter((_, i) => i !== index)
+        }))
+    );
+
+    if (outputMatrix) {
+      setOutputMatrix(
+        outputMatrix
+          .filter((_, r) => r !== index)
+          .map(row => row.filter((_, c) => c !== index))
+      );
+    }
+  };
+
+  // An imported table replaces the whole system, so specs tied to commodity indices are dropped
+  const handleImportTable = (newComms: Commodity[], newMatrix: InputMatrix) => {
+    setCommodities(newComms);
+    setMatrix(newMatrix);
+    setOutputMatrix(null);
+    setFixedCapital(null);
+    setLandSpec(null);
+    setAlternatives([]);
+    setTechnicalChange(null);
+    setFinalDemand(null);
+    setLabourTypes(null);
+    setProfitFactors(null);
+    setGravitation({ ...gravitation, initialPrices: INITIAL_GRAVITATION.initialPrices, initialQuantities: INITIAL_GRAVITATION.initialQuantities });
+    if (numeraire.kind === 'commodity' || numeraire.kind === 'basket') {
+      setNumeraire({ kind: 'netProduct' });
+    }
+    setAnalysis("");
   };
 
   const handleAnalyze = async () => {
     setIsAnalyzing(true);
-    const text = await analyzeEconomy(commodities, matrix, profitRate, metrics.prices, metrics.isValid);
+    const text = await analyzeEconomy(commodities, matrix, profitRate, metrics.prices, describeNumeraire(numeraire, commodities), metrics.diagnostics, reducibility, outputMatrix);
     setAnalysis(text);
     setIsAnalyzing(false);
   };
@@ -137,6 +655,39 @@ const App: React.FC = () => {
   const getCostBreakdown = (idx: number) => {
     if (metrics.prices.length === 0) return null;
     const price = metrics.prices[idx];
+    // Profit on the means of production, and on the wages too when they are advanced, at the industry's rate
+    const industryRate = landAnalysis ? profitRate : industryProfitRates(profitRate, commodities.length, pricingOptions)[idx];
+    const profitOn = (capital: number, wageCost: number) =>
+      (wageClosure === 'anteFactum' ? capital + wageCost : capital) * industryRate;
+    // The wage cost of each labour type, in proportion to the industry's reduced hours of it
+    const byType = (wageCost: number) =>
+      labourTypes ? wageSharesByType(commodities[idx], labourTypes).map(share => share * wageCost) : null;
+
+    if (outputMatrix) {
+      // Joint production: break down the value of the whole gross output of process idx
+      let outputValue = 0;
+      let constantCapitalValue = 0;
+      commodities.forEach((_, i) => {
+        outputValue += (metrics.prices[i] || 0) * outputMatrix[i][idx];
+        constantCapitalValue += (metrics.prices[i] || 0) * matrix[i][idx];
+      });
+      const wageCost = commodities[idx].laborInput * metrics.wage;
+      const profit = profitOn(constantCapitalValue, wageCost);
+      return { constantCapitalValue, profit, wageCost, wageCostByType: byType(wageCost), rent: 0, price, outputValue };
+    }
+
+    if (landAnalysis && landSpec?.crop === idx) {
+      // The crop: average over all cultivated lands, so that rent makes up the difference
+      const output = commodities[idx].totalOutput || 1;
+      let constantCapitalValue = 0;
+      landAnalysis.cropInputs.forEach((q, i) => {
+        constantCapitalValue += (metrics.prices[i] || 0) * q / output;
+      });
+      const wageCost = (landAnalysis.cropLabor / output) * metrics.wage;
+      const profit = profitOn(constantCapitalValue, wageCost);
+      const rent = landAnalysis.totalRent / output;
+      return { constantCapitalValue, profit, wageCost, wageCostByType: byType(wageCost), rent, price, outputValue: price };
+    }
     
     let constantCapitalValue = 0;
     commodities.forEach((inputComm, inputIdx) => {
@@ -146,10 +697,10 @@ const App: React.FC = () => {
       constantCapitalValue += (metrics.prices[inputIdx] || 0) * a_ij;
     });
 
-    const profit = constantCapitalValue * profitRate;
     const wageCost = (commodities[idx].laborInput / commodities[idx].totalOutput) * metrics.wage;
+    const profit = profitOn(constantCapitalValue, wageCost);
     
-    return { constantCapitalValue, profit, wageCost, price };
+    return { constantCapitalValue, profit, wageCost, wageCostByType: byType(wageCost), rent: 0, price, outputValue: price };
   };
 
   // Determine slider Max
@@ -166,8 +717,8 @@ const App: React.FC = () => {
         </div>
         <div className="text-right mt-4 md:mt-0">
            <div className="text-xs text-sraffa-500 uppercase tracking-widest font-bold">System Status</div>
-           <div className={`text-sm font-bold ${metrics.isValid ? 'text-green-400' : 'text-yellow-400'}`}>
-             {metrics.isValid ? 'PRICES POSITIVE' : `NEGATIVE PRICES (r > R)`}
+           <div className={`text-sm font-bold ${metrics.diagnostics.status === 'ok' ? 'text-green-400' : 'text-yellow-400'}`}>
+             {metrics.diagnostics.headline}
            </div>
         </div>
       </header>
@@ -176,12 +727,49 @@ const App: React.FC = () => {
         
         {/* LEFT COLUMN: INPUTS */}
         <div className="space-y-6">
+          <ScenarioPanel
+            scenario={scenario}
+            loadErrors={loadErrors}
+            onMetadataChange={setMetadata}
+            onLoad={applyScenario}
+            onLoadErrors={setLoadErrors}
+          />
+
+          <IOImportPanel onImport={handleImportTable} />
+
+          <HistoryPanel
+            undoSteps={history?.past.length ?? 0}
+            redoSteps={history?.future.length ?? 0}
+            snapshots={snapshots}
+            compareIds={compareIds}
+            comparison={snapshotComparison}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onSaveSnapshot={handleSaveSnapshot}
+            onRestoreSnapshot={(id) => {
+              const snapshot = snapshots.find(s => s.id === id);
+              if (snapshot) applyState(snapshot.state);
+            }}
+            onDeleteSnapshot={(id) => {
+              setSnapshots(snapshots.filter(s => s.id !== id));
+              setCompareIds([compareIds[0] === id ? null : compareIds[0], compareIds[1] === id ? null : compareIds[1]]);
+            }}
+            onCompareChange={setCompareIds}
+          />
+
           <section>
             <MatrixInput 
               commodities={commodities}
               matrix={matrix}
+              outputMatrix={outputMatrix}
+              reducibility={reducibility ?? undefined}
+              heatmap={heatmap}
+              labourTypes={labourTypes}
               onUpdateMatrix={handleMatrixUpdate}
+              onUpdateOutputMatrix={handleOutputMatrixUpdate}
+              onToggleJointProduction={handleToggleJointProduction}
               onUpdateCommodity={handleCommodityUpdate}
+              onUpdateLabourByType={handleLabourByTypeUpdate}
               onAddCommodity={handleAddCommodity}
               onRemoveCommodity={handleRemoveCommodity}
             />
@@ -235,21 +823,87 @@ const App: React.FC = () => {
                </div>
 
                <div className="bg-sraffa-900 p-3 rounded border border-sraffa-700 flex items-center justify-between">
-                 <div className="text-xs text-sraffa-400">Wage Rate (w)<br/><span className="text-[10px] opacity-50">(Numeraire)</span></div>
-                 <div>
-                   <input 
-                     type="number"
-                     step="0.1"
-                     min="0"
-                     value={wage}
-                     onChange={(e) => setWage(Math.max(0, parseFloat(e.target.value)))}
-                     className="bg-transparent text-right text-xl font-mono text-yellow-400 focus:outline-none focus:border-b focus:border-yellow-500 w-24"
-                   />
+                 <div className="text-xs text-sraffa-400">
+                   Wages paid<br/>
+                   <span className="text-[10px] opacity-50">
+                     {wageClosure === 'postFactum' ? 'p = (1+r)pA + wl' : 'p = (1+r)(pA + wl)'}
+                   </span>
+                 </div>
+                 <div className="flex gap-1">
+                   {(['postFactum', 'anteFactum'] as WageClosure[]).map(closure => (
+                     <button
+                       key={closure}
+                       onClick={() => setWageClosure(closure)}
+                       className={`text-xs px-2 py-1 rounded border transition-colors ${wageClosure === closure ? 'bg-blue-900/30 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+                     >
+                       {closure === 'postFactum' ? 'Post factum' : 'Ante factum'}
+                     </button>
+                   ))}
+                 </div>
+               </div>
+
+               <NumeraireSelector
+                 commodities={commodities}
+                 spec={numeraire}
+                 resolvedWage={resolvedWage}
+                 hasStandard={standardSystem !== null}
+                 onChange={setNumeraire}
+               />
+
+               <div className="bg-sraffa-900 p-3 rounded border border-sraffa-700 flex items-center justify-between">
+                 <div className="text-xs text-sraffa-400">
+                   Arithmetic<br/>
+                   <span className="text-[10px] opacity-50">
+                     {arithmetic === 'exact' ? 'BigInt fractions, no tolerances' : 'Double precision'}
+                   </span>
+                 </div>
+                 <div className="flex gap-1">
+                   {(['float', 'exact'] as ArithmeticMode[]).map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => setArithmetic(mode)}
+                       className={`text-xs px-2 py-1 rounded border transition-colors ${arithmetic === mode ? 'bg-blue-900/30 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+                     >
+                       {mode === 'float' ? 'Floating point' : 'Exact'}
+                     </button>
+                   ))}
                  </div>
                </div>
+               {arithmetic === 'exact' && !exactPrices && (
+                 <div className="text-[10px] text-yellow-400 -mt-4">
+                   {landSpec && !outputMatrix
+                     ? 'Exact arithmetic is not available with scarce land; prices are computed in floating point.'
+                     : profitFactors
+                       ? 'Exact arithmetic assumes a uniform rate of profit; prices are computed in floating point.'
+                       : numeraire.kind === 'standard' && exactSystem && exactSystem.maxProfitRate === null
+                         ? 'R is not rational, so the Standard commodity has no exact weights to serve as numeraire; prices are computed in floating point.'
+                         : 'The system is exactly singular or the numeraire is worth nothing; prices are computed in floating point.'}
+                 </div>
+               )}
 
              </div>
           </section>
+
+          <LabourTypesPanel
+            types={labourTypes}
+            wage={metrics.wage}
+            wagesByType={aggregates?.wagesByType ?? null}
+            onEnable={handleEnableLabourTypes}
+            onAdd={handleAddLabourType}
+            onRemove={handleRemoveLabourType}
+            onUpdate={handleLabourTypeUpdate}
+          />
+
+          <ProfitRatesPanel
+            commodities={commodities}
+            factors={profitFactors}
+            profitRate={profitRate}
+            analysis={profitHierarchy}
+            hasLand={landAnalysis !== null}
+            onChange={setProfitFactors}
+          />
+
+          <DiagnosticsPanel commodities={commodities} diagnostics={metrics.diagnostics} />
         </div>
 
         {/* RIGHT COLUMN: ANALYSIS & VISUALIZATION */}
@@ -260,7 +914,7 @@ const App: React.FC = () => {
             <div className="flex justify-between items-center mb-6">
                <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Relative Prices</h3>
                <span className="text-xs bg-sraffa-900 text-sraffa-300 px-2 py-1 rounded border border-sraffa-700">
-                 Standard: Wage = {wage}
+                 Numeraire: {describeNumeraire(numeraire, commodities)}
                </span>
             </div>
 
@@ -269,7 +923,7 @@ const App: React.FC = () => {
                 {commodities.map((c, i) => {
                   const breakdown = getCostBreakdown(i);
                   if (!breakdown) return null;
-                  const { constantCapitalValue, profit, wageCost, price } = breakdown;
+                  const { constantCapitalValue, profit, wageCost, wageCostByType, rent, price, outputValue } = breakdown;
                   
                   // Handle Negative Prices (r > R)
                   if (price < 0) {
@@ -280,22 +934,40 @@ const App: React.FC = () => {
                                 <span className="font-mono text-red-300">{price.toFixed(4)}</span>
                             </div>
                             <div className="h-6 w-full bg-red-900/20 rounded flex items-center justify-center border border-red-900/50 text-[10px] text-red-400 uppercase tracking-widest">
-                                Negative Price
+                                {outputMatrix ? 'Negative Price (joint production)' : 'Negative Price'}
                             </div>
                         </div>
                       );
                   }
 
                   // Calculate percentages for bar width
-                  const ccPct = Math.max(0, (constantCapitalValue / price) * 100);
-                  const profitPct = Math.max(0, (profit / price) * 100);
-                  const wagePct = Math.max(0, (wageCost / price) * 100);
+                  const ccPct = Math.max(0, (constantCapitalValue / outputValue) * 100);
+                  const profitPct = Math.max(0, (profit / outputValue) * 100);
+                  const wagePct = Math.max(0, (wageCost / outputValue) * 100);
+                  const rentPct = Math.max(0, (rent / outputValue) * 100);
 
                   return (
                     <div key={c.id} className="relative">
                       <div className="flex justify-between text-sm mb-1">
-                        <span className="font-bold text-sraffa-200">{c.name}</span>
-                        <span className="font-mono text-blue-300">{price.toFixed(4)}</span>
+                        <span className="font-bold text-sraffa-200">
+                          {c.name}
+                          {outputMatrix && (
+                            <span className="ml-2 text-[10px] font-normal text-sraffa-500">
+                              bar: process {i + 1} output value {outputValue.toFixed(3)}
+                            </span>
+                          )}
+                        </span>
+                        <span className="font-mono text-blue-300">
+                          {/* Under joint production labour values can be negative without any error in the data */}
+                          {outputMatrix && metrics.labourValues[i] !== undefined && (
+                            <span className={`mr-3 text-[10px] ${metrics.labourValues[i] < 0 ? 'text-red-400' : 'text-sraffa-400'}`}>
+                              value {metrics.labourValues[i].toFixed(4)}
+                            </span>
+                          )}
+                          {exactPrices
+                            ? <span title={price.toFixed(6)}>{formatFraction(exactPrices.prices[i])}</span>
+                            : price.toFixed(4)}
+                        </span>
                       </div>
                       
                       {/* Visualization Bar */}
@@ -313,8 +985,18 @@ const App: React.FC = () => {
                         <div style={{ width: `${wagePct}%` }} className="bg-yellow-500 h-full relative group">
                            {wagePct > 5 && <div className="opacity-0 group-hover:opacity-100 absolute bottom-full mb-1 left-1/2 -translate-x-1/2 bg-black text-xs p-1 rounded whitespace-nowrap pointer-events-none z-10">
                              Wage: {wageCost.toFixed(3)}
+                             {labourTypes && wageCostByType?.map((x, k) => (
+                               <div key={labourTypes[k].id} className="text-[10px] text-yellow-200">{labourTypes[k].name}: {x.toFixed(3)}</div>
+                             ))}
                            </div>}
                         </div>
+                        {rentPct > 0 && (
+                          <div style={{ width: `${rentPct}%` }} className="bg-green-500 h-full relative group">
+                             {rentPct > 5 && <div className="opacity-0 group-hover:opacity-100 absolute bottom-full mb-1 left-1/2 -translate-x-1/2 bg-black text-xs p-1 rounded whitespace-nowrap pointer-events-none z-10">
+                               Rent: {rent.toFixed(3)}
+                             </div>}
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -324,8 +1006,27 @@ const App: React.FC = () => {
                     <div className="flex items-center gap-1"><div className="w-2 h-2 bg-sraffa-500 rounded-full"></div> Means of Prod.</div>
                     <div className="flex items-center gap-1"><div className="w-2 h-2 bg-blue-500 rounded-full"></div> Profit</div>
                     <div className="flex items-center gap-1"><div className="w-2 h-2 bg-yellow-500 rounded-full"></div> Wages</div>
+                    {landAnalysis && <div className="flex items-center gap-1"><div className="w-2 h-2 bg-green-500 rounded-full"></div> Rent</div>}
                 </div>
 
+                {exactSystem && exactPrices && (
+                  <div className="p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 text-xs font-mono text-sraffa-300 space-y-1">
+                    <div><span className="font-sans text-sraffa-500">r = </span>{formatFraction(exactSystem.r)}<span className="font-sans text-sraffa-500">, w = </span>{formatFraction(exactPrices.wage)}</div>
+                    <div>
+                      <span className="font-sans text-sraffa-500">R = </span>
+                      {exactSystem.maxProfitRate ? formatFraction(exactSystem.maxProfitRate) : <span className="font-sans">not rational</span>}
+                    </div>
+                    {exactSystem.standardWage && exactSystem.expectedStandardWage && (
+                      <div className={fractionEquals(exactSystem.standardWage, exactSystem.expectedStandardWage) ? 'text-green-400' : 'text-red-400'}>
+                        <span className="font-sans text-sraffa-500">Standard wage </span>{formatFraction(exactSystem.standardWage)}
+                        {fractionEquals(exactSystem.standardWage, exactSystem.expectedStandardWage) ? ' = ' : ' ≠ '}
+                        {wageClosure === 'anteFactum' ? '(1 - r/R)/(1+r)' : '1 - r/R'}
+                        <span className="font-sans"> exactly</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
               </div>
             ) : (
               <div className="p-8 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300">
@@ -338,7 +1039,7 @@ const App: React.FC = () => {
            {aggregates && (
             <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
                 <h3 className="text-xl font-light text-sraffa-100 mb-4 font-serif italic">Aggregate Distribution</h3>
-                <div className="grid grid-cols-2 gap-4 mb-6">
+                <div className={`grid ${landAnalysis ? 'grid-cols-3' : 'grid-cols-2'} gap-4 mb-6`}>
                     <div className="p-4 bg-sraffa-900/30 rounded border border-sraffa-700/50">
                         <div className="text-xs text-sraffa-400 uppercase tracking-widest mb-1">Total Wages</div>
                         <div className="text-2xl font-mono text-yellow-400 font-bold truncate" title={aggregates.totalWages.toFixed(4)}>
@@ -347,6 +1048,16 @@ const App: React.FC = () => {
                         <div className="text-xs text-sraffa-500 mt-1 font-medium">
                             {aggregates.wageShare.toFixed(1)}% of Net Product
                         </div>
+                        {labourTypes && aggregates.wagesByType && (
+                          <div className="mt-2 space-y-0.5 text-[10px] font-mono">
+                            {labourTypes.map((t, k) => (
+                              <div key={t.id} className="flex justify-between text-sraffa-400">
+                                <span className="font-sans">{t.name}</span>
+                                <span className="text-yellow-300">{aggregates.wagesByType?.[k]?.toFixed(2)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                     </div>
                     <div className="p-4 bg-sraffa-900/30 rounded border border-sraffa-700/50">
                         <div className="text-xs text-sraffa-400 uppercase tracking-widest mb-1">Total Profits</div>
@@ -357,6 +1068,17 @@ const App: React.FC = () => {
                             {aggregates.profitShare.toFixed(1)}% of Net Product
                         </div>
                     </div>
+                    {landAnalysis && (
+                      <div className="p-4 bg-sraffa-900/30 rounded border border-sraffa-700/50">
+                          <div className="text-xs text-sraffa-400 uppercase tracking-widest mb-1">Total Rents</div>
+                          <div className="text-2xl font-mono text-green-400 font-bold truncate" title={aggregates.totalRents.toFixed(4)}>
+                              {aggregates.totalRents.toFixed(2)}
+                          </div>
+                          <div className="text-xs text-sraffa-500 mt-1 font-medium">
+                              {aggregates.rentShare.toFixed(1)}% of Net Product
+                          </div>
+                      </div>
+                    )}
                 </div>
 
                 {/* Distribution Bar */}
@@ -364,6 +1086,7 @@ const App: React.FC = () => {
                     <div className="flex mb-2 items-center justify-between text-xs text-sraffa-400">
                         <span>Wage Share</span>
                         <span>Profit Share</span>
+                        {landAnalysis && <span>Rent Share</span>}
                     </div>
                     <div className="h-3 w-full bg-sraffa-900 rounded-full overflow-hidden flex border border-sraffa-700/50">
                         {/* We clamp percentages to handle negative price anomalies gracefully in the UI */}
@@ -375,6 +1098,10 @@ const App: React.FC = () => {
                           style={{ width: `${Math.max(0, Math.min(100, aggregates.profitShare))}%` }} 
                           className="bg-blue-500/80 h-full transition-all duration-300"
                         ></div>
+                        <div 
+                          style={{ width: `${Math.max(0, Math.min(100, aggregates.rentShare))}%` }} 
+                          className="bg-green-500/80 h-full transition-all duration-300"
+                        ></div>
                     </div>
                     <div className="mt-2 flex justify-end">
                         <div className="text-[10px] text-sraffa-500 font-mono">
@@ -385,6 +1112,138 @@ const App: React.FC = () => {
             </section>
            )}
 
+          {/* LABOUR VALUES CARD */}
+          {valueAnalysis && (
+            <LabourValuePanel
+              commodities={commodities}
+              prices={metrics.prices}
+              analysis={valueAnalysis}
+            />
+          )}
+
+          {/* PRICE SENSITIVITY CARD */}
+          {sensitivity && (
+            <SensitivityPanel
+              commodities={commodities}
+              sensitivity={sensitivity}
+              commodity={Math.min(sensitivityCommodity, commodities.length - 1)}
+              showHeatmap={showHeatmap}
+              onCommodityChange={setSensitivityCommodity}
+              onToggleHeatmap={() => setShowHeatmap(!showHeatmap)}
+            />
+          )}
+
+          {/* QUANTITY SYSTEM CARD */}
+          {quantitySystem && cambridge && (
+            <QuantityPanel
+              commodities={commodities}
+              quantities={quantitySystem}
+              cambridge={cambridge}
+              profitRate={profitRate}
+              maxProfitRate={metrics.maxProfitRate ?? 0}
+              onGrowthRateChange={setGrowthRate}
+              onSavingsPropensityChange={setSavingsPropensity}
+            />
+          )}
+
+          {/* FINAL DEMAND CARD */}
+          {finalDemandAnalysis && (
+            <FinalDemandPanel
+              commodities={commodities}
+              netProduct={netProduct}
+              analysis={finalDemandAnalysis}
+              isCustom={finalDemand !== null}
+              onFinalDemandChange={setFinalDemand}
+              onRescale={handleRescaleToDemand}
+            />
+          )}
+
+          {/* GRAVITATION CARD */}
+          {gravitationResult && (
+            <GravitationPanel
+              commodities={commodities}
+              spec={gravitation}
+              result={gravitationResult}
+              profitRate={profitRate}
+              onSpecChange={setGravitation}
+            />
+          )}
+
+          {/* WAGE-PROFIT FRONTIER CARD */}
+          {frontier && (
+            <FrontierChart
+              commodities={commodities}
+              frontier={frontier}
+              profitRate={profitRate}
+              onNumeraireChange={setFrontierNumeraire}
+            />
+          )}
+
+          {/* REDUCTION TO DATED LABOUR CARD */}
+          {reduction && (
+            <ReductionPanel
+              commodities={commodities}
+              reduction={reduction}
+              termCurves={datedTermCurves}
+              commodity={Math.min(reductionCommodity, commodities.length - 1)}
+              onCommodityChange={setReductionCommodity}
+              onDepthChange={setReductionDepth}
+            />
+          )}
+
+          {/* CHOICE OF TECHNIQUE CARD */}
+          {!outputMatrix && (
+            <TechniquePanel
+              commodities={commodities}
+              matrix={matrix}
+              alternatives={alternatives}
+              analysis={techniqueAnalysis}
+              profitRate={profitRate}
+              onChange={setAlternatives}
+            />
+          )}
+
+          {/* TECHNICAL CHANGE CARD */}
+          {!landAnalysis && (
+            <TechnicalChangePanel
+              commodities={commodities}
+              matrix={matrix}
+              spec={technicalChange}
+              analysis={technicalChangeAnalysis}
+              profitRate={profitRate}
+              onChange={setTechnicalChange}
+            />
+          )}
+
+          {/* LAND AND RENT CARD */}
+          {!outputMatrix && (
+            <LandPanel
+              commodities={commodities}
+              spec={landSpec}
+              analysis={landAnalysis}
+              onEnable={() => setLandSpec(createDefaultLandSpec(commodities, matrix, 0))}
+              onChange={setLandSpec}
+            />
+          )}
+
+          {/* FIXED CAPITAL CARD */}
+          <FixedCapitalPanel
+            commodities={commodities}
+            spec={fixedCapital}
+            analysis={fixedCapitalAnalysis}
+            circulatingPrices={metrics.prices}
+            onChange={setFixedCapital}
+          />
+
+          {/* STANDARD SYSTEM CARD */}
+          <StandardSystemPanel
+            commodities={commodities}
+            standard={standardSystem}
+            wageCheck={standardWageCheck}
+            wageClosure={wageClosure}
+            spectral={spectralAnalysis}
+          />
+
           {/* GEMINI ANALYSIS CARD */}
           <section className="bg-gradient-to-br from-sraffa-800 to-sraffa-900 p-6 rounded-xl border border-sraffa-600 shadow-xl relative overflow-hidden">
              <div className="absolute top-0 right-0 p-4 opacity-10">
@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs';
+import { EngineResult, parseScenarioJson, Scenario, solveState, SolveOptions, sweepProfitRate } from '../engine';
+
+const USAGE = `Usage: sraffa <scenario.json> [options]
+
+Options:
+  --r <rate>               Rate of profit, replacing the scenario's (0.1 = 10%)
+  --wage <w>               Take the wage as numeraire at this level
+  --sweep <from:to:step>   Solve at every r in the range instead of a single r
+  --format <json|table>    Output format (default: table)
+  --help                   Show this message`;
+
+interface CliArgs {
+  file: string;
+  options: SolveOptions;
+  sweep: [number, number, number] | null;
+  format: 'json' | 'table';
+}
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}\n`);
+  process.exit(1);
+};
+
+const parseNumber = (flag: string, value: string | undefined): number => {
+  const x = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(x)) fail(`${flag} needs a number.`);
+  return x;
+};
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = { file: '', options: {}, sweep: null, format: 'table' };
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    switch (arg) {
+      case '--help':
+      case '-h':
+        process.stdout.write(`${USAGE}\n`);
+        process.exit(0);
+      case '--r':
+        args.options.profitRate = parseNumber(arg, argv[++k]);
+        break;
+      case '--wage':
+        args.options.wage = parseNumber(arg, argv[++k]);
+        break;
+      case '--sweep': {
+        const parts = (argv[++k] ?? '').split(':');
+        if (parts.length !== 3) fail('--sweep takes from:to:step, e.g. 0:0.25:0.05.');
+        const [from, to, step] = parts.map(p => parseNumber(arg, p));
+        if (step <= 0 || to < from) fail('--sweep needs from <= to and a positive step.');
+        args.sweep = [from, to, step];
+        break;
+      }
+      case '--format': {
+        const format = argv[++k];
+        if (format !== 'json' && format !== 'table') fail('--format is json or table.');
+        args.format = format as 'json' | 'table';
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) fail(`Unknown option ${arg}.`);
+        if (args.file) fail('Only one scenario file can be given.');
+        args.file = arg;
+    }
+  }
+  if (!args.file) fail('No scenario file given.');
+  return args;
+};
+
+const loadScenario = (file: string): Scenario => {
+  let text = '';
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch {
+    fail(`Cannot read ${file}.`);
+  }
+  const { scenario, errors } = parseScenarioJson(text);
+  if (!scenario) fail(`${file} is not a valid scenario:\n  ${errors.join('\n  ')}`);
+  return scenario as Scenario;
+};
+
+const pad = (cells: string[], widths: number[]) => cells.map((c, k) => (k === 0 ? c.padEnd(widths[k]) : c.padStart(widths[k]))).join('  ');
+
+const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, k) => Math.max(...rows.map(row => row[k].length)));
+  return rows.map(row => pad(row, widths)).join('\n');
+};
+
+const percent = (x: number) => `${(x * 100).toFixed(2)}%`;
+
+const singleTable = (names: string[], labourNames: string[], result: EngineResult): string => {
+  const lines = [
+    formatTable([['Commodity', 'Price'], ...names.map((name, i) => [name, result.prices[i]?.toFixed(6) ?? '—'])]),
+    '',
+    formatTable([
+      ['r', percent(result.profitRate)],
+      ['R', percent(result.maxProfitRate)],
+      ['Wage', result.wage?.toFixed(6) ?? '—'],
+      ...(result.aggregates
+        ? [
+            ['Net product', result.aggregates.netProduct.toFixed(4)],
+            ['Wages', result.aggregates.totalWages.toFixed(4)],
+            ...labourNames.map((name, k) => [`  ${name}`, result.aggregates?.wagesByType?.[k]?.toFixed(4) ?? '—']),
+            ['Profits', result.aggregates.totalProfits.toFixed(4)],
+            ['Capital', result.aggregates.totalCapital.toFixed(4)],
+            ['Wage share', `${result.aggregates.wageShare.toFixed(2)}%`],
+            ['Profit share', `${result.aggregates.profitShare.toFixed(2)}%`]
+          ]
+        : [])
+    ]),
+    '',
+    `Status: ${result.diagnostics.headline}`,
+    ...result.diagnostics.issues.map(issue => `  [${issue.severity}] ${issue.message}`)
+  ];
+  return lines.join('\n');
+};
+
+const sweepTable = (names: string[], results: EngineResult[]): string =>
+  formatTable([
+    ['r', 'Wage', ...names, 'Wage share', 'Status'],
+    ...results.map(res => [
+      percent(res.profitRate),
+      res.wage?.toFixed(6) ?? '—',
+      ...names.map((_, i) => res.prices[i]?.toFixed(6) ?? '—'),
+      res.aggregates ? `${res.aggregates.wageShare.toFixed(2)}%` : '—',
+      res.diagnostics.status
+    ])
+  ]);
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const { metadata, state } = loadScenario(args.file);
+  const names = state.commodities.map(c => c.name);
+
+  if (args.sweep) {
+    const results = sweepProfitRate(state, ...args.sweep, args.options);
+    process.stdout.write(args.format === 'json'
+      ? `${JSON.stringify({ title: metadata.title, commodities: names, results }, null, 2)}\n`
+      : `${sweepTable(names, results)}\n`);
+    return;
+  }
+
+  const result = solveState(state, args.options);
+  process.stdout.write(args.format === 'json'
+    ? `${JSON.stringify({ title: metadata.title, commodities: names, result }, null, 2)}\n`
+    : `${singleTable(names, state.labourTypes?.map(t => t.name) ?? [], result)}\n`);
+};
+
+main();
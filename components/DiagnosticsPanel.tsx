@@ -0,0 +1,78 @@
+import React from 'react';
+import { Commodity, SystemDiagnostics } from '../types';
+
+interface DiagnosticsPanelProps {
+  commodities: Commodity[];
+  diagnostics: SystemDiagnostics;
+}
+
+const SEVERITY_STYLES = {
+  error: 'bg-red-900/20 border-red-900/50 text-red-300',
+  warning: 'bg-yellow-900/20 border-yellow-900/50 text-yellow-300',
+  info: 'bg-sraffa-900/30 border-sraffa-700/50 text-sraffa-300'
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({
+  commodities,
+  diagnostics
+}) => {
+  const check = (ok: boolean | null, label: string) => (
+    <span className={`text-xs px-2 py-1 rounded border ${ok === null ? 'bg-sraffa-900 text-sraffa-500 border-sraffa-700' : ok ? 'bg-green-900/30 text-green-300 border-green-800' : 'bg-red-900/30 text-red-300 border-red-800'}`}>
+      {label}
+    </span>
+  );
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Viability</h3>
+        <span className={`text-xs font-bold ${diagnostics.status === 'ok' ? 'text-green-400' : 'text-yellow-400'}`}>
+          {diagnostics.headline}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {check(diagnostics.hawkinsSimon, 'Hawkins–Simon')}
+        {check(diagnostics.inverseExists, 'Inverse exists')}
+        {check(diagnostics.hawkinsSimon === null ? null : diagnostics.inverseNonNegative, 'Inverse ≥ 0')}
+        {check(diagnostics.pricesPositive, 'Prices ≥ 0')}
+      </div>
+
+      {diagnostics.surplus.length > 0 && (
+        <table className="w-full text-xs mb-4">
+          <thead>
+            <tr className="text-sraffa-400 uppercase tracking-widest">
+              <th className="text-left font-medium pb-1">Commodity</th>
+              <th className="text-right font-medium pb-1">Surplus</th>
+              {diagnostics.leadingMinors.length > 0 && <th className="text-right font-medium pb-1">Leading minor</th>}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {commodities.map((c, i) => (
+              <tr key={c.id} className="border-t border-sraffa-700/50">
+                <td className="py-0.5 font-sans text-sraffa-200">{c.name}</td>
+                <td className={`py-0.5 text-right ${diagnostics.surplus[i] < 0 ? 'text-red-400' : 'text-green-400'}`}>{diagnostics.surplus[i]?.toFixed(3)}</td>
+                {diagnostics.leadingMinors.length > 0 && (
+                  <td className={`py-0.5 text-right ${diagnostics.leadingMinors[i] > 0 ? 'text-sraffa-300' : 'text-red-400'}`}>{diagnostics.leadingMinors[i]?.toFixed(4)}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="space-y-2">
+        {diagnostics.issues.map((issue, k) => (
+          <div key={k} className={`p-2 rounded border text-xs ${SEVERITY_STYLES[issue.severity]}`}>
+            {issue.message}
+          </div>
+        ))}
+        {diagnostics.issues.length === 0 && (
+          <div className="text-xs text-sraffa-500">The system is productive and all prices are positive.</div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DiagnosticsPanel;
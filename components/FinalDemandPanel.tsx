@@ -0,0 +1,114 @@
+import React from 'react';
+import { Commodity, FinalDemandAnalysis } from '../types';
+
+interface FinalDemandPanelProps {
+  commodities: Commodity[];
+  netProduct: number[]; // Final demand met by the actual system
+  analysis: FinalDemandAnalysis;
+  isCustom: boolean;
+  onFinalDemandChange: (finalDemand: number[] | null) => void;
+  onRescale: () => void;
+}
+
+const formatDelta = (before: number, after: number) => {
+  if (Math.abs(before) < 1e-12) return null;
+  const pct = ((after - before) / before) * 100;
+  if (Math.abs(pct) < 0.005) return null;
+  return <span className={pct > 0 ? 'text-green-400' : 'text-red-400'}> ({pct > 0 ? '+' : ''}{pct.toFixed(2)}%)</span>;
+};
+
+const FinalDemandPanel: React.FC<FinalDemandPanelProps> = ({
+  commodities,
+  netProduct,
+  analysis,
+  isCustom,
+  onFinalDemandChange,
+  onRescale
+}) => {
+  const { finalDemand } = analysis;
+  const actualEmployment = commodities.reduce((s, c) => s + c.laborInput, 0);
+
+  const handleChange = (i: number, val: string) => {
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    onFinalDemandChange(finalDemand.map((f, k) => (k === i ? Math.max(0, num) : f)));
+  };
+
+  const handleScale = (i: number, factor: number) =>
+    onFinalDemandChange(finalDemand.map((f, k) => (k === i ? f * factor : f)));
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Final Demand</h3>
+        <div className="flex gap-2">
+          {!analysis.isProductive && (
+            <span className="text-xs px-2 py-1 rounded border bg-red-900/30 text-red-300 border-red-800">(I − A)⁻¹ has negative entries</span>
+          )}
+          {isCustom && (
+            <button onClick={() => onFinalDemandChange(null)} className="text-xs px-2 py-1 rounded border bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200">
+              Reset to net product
+            </button>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-xs mb-3">
+        <thead>
+          <tr className="text-sraffa-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-1">Commodity</th>
+            <th className="text-right font-medium pb-1">Final demand</th>
+            <th className="text-right font-medium pb-1">Gross output</th>
+            <th className="text-right font-medium pb-1">Employment</th>
+            <th className="text-right font-medium pb-1" title="Gross output per unit of final demand">Output mult.</th>
+            <th className="text-right font-medium pb-1" title="Labour per unit of final demand">Empl. mult.</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {commodities.map((c, i) => (
+            <tr key={c.id} className="border-t border-sraffa-700/50">
+              <td className="py-1 font-sans text-sraffa-200">{c.name}</td>
+              <td className="py-1 text-right">
+                <div className="flex items-center justify-end gap-1">
+                  <button onClick={() => handleScale(i, 1 / 1.1)} className="text-[10px] text-sraffa-400 hover:text-sraffa-200" title="−10%">−</button>
+                  <input
+                    type="number" step="1" min="0" value={Number(finalDemand[i]?.toFixed(4))}
+                    onChange={(e) => handleChange(i, e.target.value)}
+                    className="w-20 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                  />
+                  <button onClick={() => handleScale(i, 1.1)} className="text-[10px] text-sraffa-400 hover:text-sraffa-200" title="+10%">+</button>
+                </div>
+                <div className="text-[10px] text-sraffa-500">{formatDelta(netProduct[i], finalDemand[i])}</div>
+              </td>
+              <td className="py-1 text-right">
+                {analysis.grossOutputs[i].toFixed(2)}
+                <div className="text-[10px]">{formatDelta(c.totalOutput, analysis.grossOutputs[i])}</div>
+              </td>
+              <td className="py-1 text-right text-yellow-300">{analysis.employment[i].toFixed(2)}</td>
+              <td className="py-1 text-right text-sraffa-400">{analysis.outputMultipliers[i].toFixed(3)}</td>
+              <td className="py-1 text-right text-sraffa-400">{analysis.employmentMultipliers[i].toFixed(4)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-between items-center text-xs">
+        <div className="text-sraffa-300">
+          Total employment: <span className="font-mono text-yellow-300">{analysis.totalEmployment.toFixed(2)}</span>
+          <span className="text-sraffa-500"> (actual {actualEmployment.toFixed(2)})</span>
+          {formatDelta(actualEmployment, analysis.totalEmployment)}
+        </div>
+        <button
+          onClick={onRescale}
+          disabled={!isCustom || analysis.grossOutputs.some(x => x < 0)}
+          className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 disabled:opacity-40 text-white rounded text-xs transition-colors"
+          title="Scale every industry to the required gross output"
+        >
+          Rescale system
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default FinalDemandPanel;
@@ -0,0 +1,171 @@
+import React from 'react';
+import { Commodity, FixedCapitalAnalysis, FixedCapitalSpec } from '../types';
+import { MAX_LIFETIME } from '../utils/fixedCapital';
+
+interface FixedCapitalPanelProps {
+  commodities: Commodity[];
+  spec: FixedCapitalSpec | null;
+  analysis: FixedCapitalAnalysis | null;
+  circulatingPrices: number[]; // Prices when the machine is treated as circulating capital
+  onChange: (spec: FixedCapitalSpec | null) => void;
+}
+
+const FixedCapitalPanel: React.FC<FixedCapitalPanelProps> = ({
+  commodities,
+  spec,
+  analysis,
+  circulatingPrices,
+  onChange
+}) => {
+
+  const handleMachineChange = (val: string) => {
+    if (val === '') {
+      onChange(null);
+      return;
+    }
+    const machine = parseInt(val, 10);
+    const industry = spec?.industry !== undefined && spec.industry !== machine
+      ? spec.industry
+      : commodities.findIndex((_, j) => j !== machine);
+    onChange({
+      machine,
+      industry: Math.max(0, industry),
+      lifetime: spec?.lifetime ?? 5,
+      efficiency: spec?.efficiency ?? new Array(5).fill(1)
+    });
+  };
+
+  const handleLifetimeChange = (val: string) => {
+    if (!spec) return;
+    const lifetime = Math.max(1, Math.min(MAX_LIFETIME, parseInt(val, 10) || 1));
+    const efficiency = Array.from({ length: lifetime }, (_, t) => spec.efficiency[t] ?? 1);
+    onChange({ ...spec, lifetime, efficiency });
+  };
+
+  const handleEfficiencyChange = (age: number, val: string) => {
+    if (!spec) return;
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    const efficiency = [...spec.efficiency];
+    efficiency[age] = Math.max(0, num);
+    onChange({ ...spec, efficiency });
+  };
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Fixed Capital</h3>
+        {analysis && (
+          <span className="text-xs bg-sraffa-900 text-sraffa-300 px-2 py-1 rounded border border-sraffa-700">
+            Economic lifetime: {analysis.economicLifetime} of {spec?.lifetime} periods
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-xs text-sraffa-400">
+        <label className="flex flex-col gap-1">
+          Durable machine
+          <select
+            value={spec ? spec.machine : ''}
+            onChange={(e) => handleMachineChange(e.target.value)}
+            className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+          >
+            <option value="">None (all circulating)</option>
+            {commodities.map((c, i) => (
+              <option key={c.id} value={i}>{c.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Used by industry
+          <select
+            value={spec ? spec.industry : ''}
+            disabled={!spec}
+            onChange={(e) => spec && onChange({ ...spec, industry: parseInt(e.target.value, 10) })}
+            className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 outline-none focus:border-blue-500 disabled:opacity-50"
+          >
+            {commodities.map((c, i) => spec && i !== spec.machine && (
+              <option key={c.id} value={i}>{c.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Physical lifetime
+          <input
+            type="number"
+            min="1"
+            max={MAX_LIFETIME}
+            step="1"
+            value={spec ? spec.lifetime : ''}
+            disabled={!spec}
+            onChange={(e) => handleLifetimeChange(e.target.value)}
+            className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 outline-none focus:border-blue-500 text-right disabled:opacity-50"
+          />
+        </label>
+      </div>
+
+      {spec && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-sraffa-400 uppercase tracking-widest">
+                  <th className="text-left font-medium pb-2">Age</th>
+                  <th className="text-right font-medium pb-2">Efficiency</th>
+                  <th className="text-right font-medium pb-2">Book Value</th>
+                  <th className="text-right font-medium pb-2">Depreciation</th>
+                  <th className="text-right font-medium pb-2">Annual Charge</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {spec.efficiency.map((e, t) => {
+                  const inService = analysis !== null && t < analysis.economicLifetime;
+                  return (
+                    <tr key={t} className={`border-t border-sraffa-700/50 ${inService ? '' : 'opacity-40'}`}>
+                      <td className="py-1 font-sans text-sraffa-200">{t}</td>
+                      <td className="py-1 text-right">
+                        <input
+                          type="number"
+                          step="0.05"
+                          min="0"
+                          value={e}
+                          onChange={(ev) => handleEfficiencyChange(t, ev.target.value)}
+                          className="w-20 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right text-xs"
+                        />
+                      </td>
+                      <td className="py-1 text-right text-blue-300">{inService ? analysis.bookValues[t].toFixed(4) : 'scrapped'}</td>
+                      <td className="py-1 text-right text-sraffa-300">{inService ? analysis.depreciation[t].toFixed(4) : '-'}</td>
+                      <td className="py-1 text-right text-sraffa-300">{inService ? analysis.annualCharges[t].toFixed(4) : '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {analysis ? (
+            <div className="mt-4 grid grid-cols-2 gap-4">
+              {commodities.map((c, i) => (
+                <div key={c.id} className="p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 flex justify-between text-xs">
+                  <span className="font-bold text-sraffa-200">{c.name}</span>
+                  <span className="font-mono text-right">
+                    <span className="text-blue-300">{analysis.prices[i].toFixed(4)}</span>
+                    <span className="block text-[10px] text-sraffa-500">
+                      circulating: {circulatingPrices[i] !== undefined ? circulatingPrices[i].toFixed(4) : '-'}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-4 p-4 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-sm">
+              The vintage system is singular at the current rate of profit.
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default FixedCapitalPanel;
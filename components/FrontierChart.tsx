@@ -0,0 +1,148 @@
+import React from 'react';
+import { Commodity, WageProfitFrontier } from '../types';
+
+interface FrontierChartProps {
+  commodities: Commodity[];
+  frontier: WageProfitFrontier;
+  profitRate: number;
+  onNumeraireChange: (index: number) => void;
+}
+
+// One colour per commodity price curve; the wage is always drawn in yellow
+const SERIES_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#c084fc', '#fb923c', '#22d3ee', '#a3e635', '#f87171'];
+
+const WIDTH = 600;
+const HEIGHT = 280;
+const PAD = { top: 16, right: 48, bottom: 32, left: 48 };
+
+const FrontierChart: React.FC<FrontierChartProps> = ({
+  commodities,
+  frontier,
+  profitRate,
+  onNumeraireChange
+}) => {
+  const { points, maxProfitRate, numeraire } = frontier;
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+
+  // Left axis: wage. Right axis: relative prices (the numeraire itself is flat at 1).
+  const maxWage = Math.max(1e-9, ...points.map(p => p.wage));
+  const priceValues = points.flatMap(p => p.prices.filter((_, i) => i !== numeraire));
+  const maxPrice = Math.max(1e-9, ...priceValues, 1);
+  const minPrice = Math.min(0, ...priceValues);
+
+  const x = (r: number) => PAD.left + (maxProfitRate > 0 ? (r / maxProfitRate) * plotW : 0);
+  const yWage = (w: number) => PAD.top + plotH - (w / maxWage) * plotH;
+  const yPrice = (p: number) => PAD.top + plotH - ((p - minPrice) / (maxPrice - minPrice)) * plotH;
+
+  const path = (ys: number[], xs: number[]) =>
+    ys.map((y, k) => `${k === 0 ? 'M' : 'L'}${xs[k].toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  const xs = points.map(p => x(p.r));
+  const currentX = profitRate <= maxProfitRate ? x(profitRate) : null;
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Wage-Profit Frontier</h3>
+        <label className="text-xs text-sraffa-400 flex items-center gap-2">
+          Numeraire
+          <select
+            value={numeraire}
+            onChange={(e) => onNumeraireChange(parseInt(e.target.value, 10))}
+            className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 text-xs outline-none focus:border-blue-500"
+          >
+            {commodities.map((c, i) => (
+              <option key={c.id} value={i}>{c.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {points.length > 1 ? (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {/* Axes */}
+            <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} stroke="#486376" />
+            <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#486376" />
+            <line x1={PAD.left + plotW} y1={PAD.top} x2={PAD.left + plotW} y2={PAD.top + plotH} stroke="#486376" />
+
+            <text x={PAD.left} y={HEIGHT - 8} fill="#91a6b4" fontSize="10">0%</text>
+            <text x={PAD.left + plotW} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="end">
+              R = {(maxProfitRate * 100).toFixed(1)}%
+            </text>
+            <text x={PAD.left + plotW / 2} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="middle">r</text>
+            <text x={PAD.left - 6} y={PAD.top + 8} fill="#facc15" fontSize="10" textAnchor="end">{maxWage.toFixed(2)}</text>
+            <text x={PAD.left - 6} y={PAD.top + plotH} fill="#facc15" fontSize="10" textAnchor="end">0</text>
+            <text x={PAD.left + plotW + 6} y={PAD.top + 8} fill="#91a6b4" fontSize="10">{maxPrice.toFixed(2)}</text>
+            <text x={PAD.left + plotW + 6} y={PAD.top + plotH} fill="#91a6b4" fontSize="10">{minPrice.toFixed(2)}</text>
+
+            {/* Current r */}
+            {currentX !== null && (
+              <line x1={currentX} y1={PAD.top} x2={currentX} y2={PAD.top + plotH} stroke="#3b82f6" strokeDasharray="4 3" />
+            )}
+
+            {/* Relative prices */}
+            {commodities.map((c, i) => i !== numeraire && (
+              <path
+                key={c.id}
+                d={path(points.map(p => yPrice(p.prices[i])), xs)}
+                fill="none"
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                strokeWidth="1.5"
+                strokeDasharray="5 3"
+              />
+            ))}
+
+            {/* Wage curve */}
+            <path d={path(points.map(p => yWage(p.wage)), xs)} fill="none" stroke="#facc15" strokeWidth="2.5" />
+
+            {/* Turning points of relative prices */}
+            {frontier.priceTurningPoints.map((t, k) => {
+              const nearest = points.reduce((best, p) => (Math.abs(p.r - t.r) < Math.abs(best.r - t.r) ? p : best));
+              return (
+                <circle
+                  key={k}
+                  cx={x(t.r)}
+                  cy={yPrice(nearest.prices[t.commodity])}
+                  r="4"
+                  fill="none"
+                  stroke={SERIES_COLORS[t.commodity % SERIES_COLORS.length]}
+                  strokeWidth="2"
+                />
+              );
+            })}
+          </svg>
+
+          <div className="flex flex-wrap gap-4 mt-2 text-[10px] text-sraffa-400 justify-center border-t border-sraffa-700 pt-2">
+            <div className="flex items-center gap-1"><div className="w-3 h-0.5 bg-yellow-400"></div> w(r)</div>
+            {commodities.map((c, i) => i !== numeraire && (
+              <div key={c.id} className="flex items-center gap-1">
+                <div className="w-3 h-0.5" style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }}></div>
+                p<sub>{c.name}</sub>(r)
+              </div>
+            ))}
+          </div>
+
+          {frontier.priceTurningPoints.length > 0 && (
+            <div className="mt-3 text-xs text-sraffa-300">
+              Relative prices reverse direction at:{' '}
+              {frontier.priceTurningPoints.map((t, k) => (
+                <span key={k} className="font-mono text-sraffa-200 mr-3">
+                  {commodities[t.commodity]?.name} @ r = {(t.r * 100).toFixed(1)}%
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="p-4 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-sm">
+          The frontier cannot be traced for the current system.
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FrontierChart;
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Commodity, GravitationOutcome, GravitationResult, GravitationRule, GravitationSpec } from '../types';
+
+interface GravitationPanelProps {
+  commodities: Commodity[];
+  spec: GravitationSpec;
+  result: GravitationResult;
+  profitRate: number;
+  onSpecChange: (spec: GravitationSpec) => void;
+}
+
+const LINE_COLORS = ['#60a5fa', '#facc15', '#f472b6', '#34d399', '#c084fc', '#fb923c', '#22d3ee', '#a3e635'];
+
+const RULES: { rule: GravitationRule; label: string; title: string }[] = [
+  { rule: 'crossDual', label: 'Cross-dual', title: 'Outputs follow profit differentials, prices follow excess demand' },
+  { rule: 'damped', label: 'Damped', title: 'Cross-dual with own-dual terms: prices also respond to profit differentials, outputs to excess demand' },
+  { rule: 'ownDual', label: 'Own-dual', title: 'Prices move towards cost at the average rate, outputs towards demand' }
+];
+
+const OUTCOMES: Record<GravitationOutcome, { label: string; className: string }> = {
+  converged: { label: 'Converged', className: 'bg-green-900/30 text-green-300 border-green-800' },
+  converging: { label: 'Converging', className: 'bg-green-900/30 text-green-300 border-green-800' },
+  cycling: { label: 'Persistent cycles', className: 'bg-yellow-900/30 text-yellow-300 border-yellow-800' },
+  diverging: { label: 'Diverging', className: 'bg-red-900/30 text-red-300 border-red-800' },
+  diverged: { label: 'Diverged', className: 'bg-red-900/30 text-red-300 border-red-800' }
+};
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 16, bottom: 28, left: 48 };
+const FRAME_MS = 40;
+const ANIMATION_FRAMES = 150; // The whole path plays in about six seconds
+
+const GravitationPanel: React.FC<GravitationPanelProps> = ({
+  commodities,
+  spec,
+  result,
+  profitRate,
+  onSpecChange
+}) => {
+  const { path } = result;
+  const [frame, setFrame] = useState<number | null>(null); // null shows the whole path
+  const stride = Math.max(1, Math.ceil(path.length / ANIMATION_FRAMES));
+
+  useEffect(() => {
+    if (frame === null) return;
+    if (frame >= path.length - 1) {
+      setFrame(null);
+      return;
+    }
+    const id = window.setTimeout(() => setFrame(Math.min(path.length - 1, frame + stride)), FRAME_MS);
+    return () => window.clearTimeout(id);
+  }, [frame, path.length, stride]);
+
+  const update = (changes: Partial<GravitationSpec>) => {
+    setFrame(null);
+    onSpecChange({ ...spec, ...changes });
+  };
+
+  const setInitial = (field: 'initialPrices' | 'initialQuantities', i: number, percent: number) => {
+    if (isNaN(percent)) return;
+    const values = commodities.map((_, k) => spec[field][k] ?? 1);
+    values[i] = Math.max(0.01, 1 + percent / 100);
+    update({ [field]: values });
+  };
+
+  const shown = frame === null ? path : path.slice(0, frame + 1);
+  const current = shown[shown.length - 1];
+
+  // The scale is fixed by the whole path so that it does not jump while the animation plays
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const maxDev = Math.max(1e-6, ...path.map(pt => pt.distance));
+  const lastStep = Math.max(1, path[path.length - 1].step, spec.steps);
+  const x = (step: number) => PAD.left + (step / lastStep) * plotW;
+  const y = (dev: number) => PAD.top + plotH / 2 - (dev / maxDev) * (plotH / 2);
+  const line = (values: number[]) => values.map((v, t) => `${t === 0 ? 'M' : 'L'}${x(shown[t].step).toFixed(1)},${y(v - 1).toFixed(1)}`).join(' ');
+
+  const outcome = OUTCOMES[result.outcome];
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Gravitation of Market Prices</h3>
+        <span className={`text-xs px-2 py-1 rounded border ${outcome.className}`}>{outcome.label}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center mb-4">
+        {RULES.map(({ rule, label, title }) => (
+          <button
+            key={rule}
+            onClick={() => update({ rule })}
+            title={title}
+            className={`text-xs px-2 py-1 rounded border transition-colors ${spec.rule === rule ? 'bg-blue-900/30 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => setFrame(frame === null ? 0 : null)}
+          className="ml-auto text-xs px-3 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded transition-colors"
+        >
+          {frame === null ? '▶ Play' : '■ Stop'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-xs">
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="text-sraffa-400">Price reaction</span>
+            <span className="font-mono text-sraffa-100">{spec.priceSpeed.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0.01" max="1" step="0.01" value={spec.priceSpeed}
+            onChange={(e) => update({ priceSpeed: parseFloat(e.target.value) })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="text-sraffa-400">Output reaction</span>
+            <span className="font-mono text-sraffa-100">{spec.quantitySpeed.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0.01" max="2" step="0.01" value={spec.quantitySpeed}
+            onChange={(e) => update({ quantitySpeed: parseFloat(e.target.value) })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="text-sraffa-400">Periods</span>
+            <span className="font-mono text-sraffa-100">{spec.steps}</span>
+          </div>
+          <input
+            type="range" min="20" max="1000" step="10" value={spec.steps}
+            onChange={(e) => update({ steps: parseInt(e.target.value, 10) })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+      </div>
+
+      <table className="w-full text-xs mb-3">
+        <thead>
+          <tr className="text-sraffa-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-1">Commodity</th>
+            <th className="text-right font-medium pb-1" title="Initial market price against the price of production">Start price</th>
+            <th className="text-right font-medium pb-1" title="Initial output against the actual output">Start output</th>
+            <th className="text-right font-medium pb-1">Price now</th>
+            <th className="text-right font-medium pb-1">Profit rate</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {commodities.map((c, i) => (
+            <tr key={c.id} className="border-t border-sraffa-700/50">
+              <td className="py-1 font-sans" style={{ color: LINE_COLORS[i % LINE_COLORS.length] }}>{c.name}</td>
+              {(['initialPrices', 'initialQuantities'] as const).map(field => (
+                <td key={field} className="py-1 text-right">
+                  <input
+                    type="number" step="1" value={Number((((spec[field][i] ?? 1) - 1) * 100).toFixed(2))}
+                    onChange={(e) => setInitial(field, i, parseFloat(e.target.value))}
+                    className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                  />
+                  <span className="text-sraffa-500">%</span>
+                </td>
+              ))}
+              <td className="py-1 text-right">{((current.prices[i] - 1) * 100).toFixed(2)}%</td>
+              <td className="py-1 text-right text-blue-300">{(current.profitRates[i] * 100).toFixed(2)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Deviations from the centre of gravity: prices solid, outputs dashed */}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#486376" />
+        <line x1={PAD.left} y1={y(0)} x2={PAD.left + plotW} y2={y(0)} stroke="#486376" />
+        <text x={PAD.left - 6} y={PAD.top + 8} fill="#91a6b4" fontSize="10" textAnchor="end">+{(maxDev * 100).toFixed(1)}%</text>
+        <text x={PAD.left - 6} y={y(0) + 3} fill="#91a6b4" fontSize="10" textAnchor="end">0</text>
+        <text x={PAD.left - 6} y={PAD.top + plotH} fill="#91a6b4" fontSize="10" textAnchor="end">−{(maxDev * 100).toFixed(1)}%</text>
+        <text x={PAD.left} y={HEIGHT - 8} fill="#91a6b4" fontSize="10">0</text>
+        <text x={PAD.left + plotW} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="end">period {lastStep}</text>
+        {commodities.map((c, i) => (
+          <g key={c.id}>
+            <path d={line(shown.map(pt => pt.prices[i]))} fill="none" stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth="1.5" />
+            <path d={line(shown.map(pt => pt.quantities[i]))} fill="none" stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth="1" strokeDasharray="4 3" opacity="0.7" />
+          </g>
+        ))}
+        {result.convergenceStep !== null && frame === null && (
+          <line x1={x(result.convergenceStep)} y1={PAD.top} x2={x(result.convergenceStep)} y2={PAD.top + plotH} stroke="#34d399" strokeDasharray="2 3" />
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-2 text-[10px] text-sraffa-400 justify-center border-t border-sraffa-700 pt-2">
+        <div className="flex items-center gap-1"><div className="w-3 h-0.5 bg-sraffa-300"></div> market price / price of production</div>
+        <div className="flex items-center gap-1"><div className="w-3 border-t border-dashed border-sraffa-300"></div> output / actual output</div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-4 text-xs">
+        <div className="p-2 bg-sraffa-900/30 rounded border border-sraffa-700/50">
+          <div className="text-sraffa-400">Period</div>
+          <div className="font-mono text-sraffa-100">{current.step}</div>
+        </div>
+        <div className="p-2 bg-sraffa-900/30 rounded border border-sraffa-700/50">
+          <div className="text-sraffa-400">Average rate</div>
+          <div className="font-mono text-blue-300">{(current.averageRate * 100).toFixed(2)}% <span className="text-sraffa-500">(r {(profitRate * 100).toFixed(1)}%)</span></div>
+        </div>
+        <div className="p-2 bg-sraffa-900/30 rounded border border-sraffa-700/50">
+          <div className="text-sraffa-400">{result.convergenceStep !== null ? 'Converged at' : 'Half-life'}</div>
+          <div className="font-mono text-sraffa-100">
+            {result.convergenceStep !== null
+              ? `period ${result.convergenceStep}`
+              : result.halfLife !== null ? `${result.halfLife.toFixed(1)} periods` : '—'}
+          </div>
+        </div>
+        <div className="p-2 bg-sraffa-900/30 rounded border border-sraffa-700/50">
+          <div className="text-sraffa-400">Turning points</div>
+          <div className="font-mono text-sraffa-100">{result.oscillations}</div>
+        </div>
+      </div>
+      {result.divergedAt !== null && (
+        <div className="text-[10px] text-red-400 mt-2">
+          At period {result.divergedAt} a price or output left the positive range or moved more than tenfold from its centre; the simulation stops there.
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default GravitationPanel;
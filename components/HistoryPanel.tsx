@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Snapshot, SnapshotComparison } from '../types';
+import { CURRENT_STATE } from '../utils/history';
+
+interface HistoryPanelProps {
+  undoSteps: number;
+  redoSteps: number;
+  snapshots: Snapshot[];
+  compareIds: [number | null, number | null];
+  comparison: SnapshotComparison | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSaveSnapshot: (name: string) => void;
+  onRestoreSnapshot: (id: number) => void;
+  onDeleteSnapshot: (id: number) => void;
+  onCompareChange: (ids: [number | null, number | null]) => void;
+}
+
+const formatChange = (before: number | null, after: number | null, digits: number, suffix = '') => {
+  if (before === null || after === null) return <span className="text-sraffa-500">—</span>;
+  const delta = after - before;
+  return (
+    <>
+      {before.toFixed(digits)}{suffix} → {after.toFixed(digits)}{suffix}
+      {Math.abs(delta) > 10 ** -digits / 2 && (
+        <span className={delta > 0 ? 'text-green-400' : 'text-red-400'}> ({delta > 0 ? '+' : ''}{delta.toFixed(digits)})</span>
+      )}
+    </>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  undoSteps,
+  redoSteps,
+  snapshots,
+  compareIds,
+  comparison,
+  onUndo,
+  onRedo,
+  onSaveSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+  onCompareChange
+}) => {
+  const [name, setName] = useState<string>('');
+
+  const handleSave = () => {
+    onSaveSnapshot(name.trim() || `Snapshot ${snapshots.length + 1}`);
+    setName('');
+  };
+
+  const selector = (k: 0 | 1) => (
+    <select
+      value={compareIds[k] ?? ''}
+      onChange={(e) => {
+        const ids: [number | null, number | null] = [compareIds[0], compareIds[1]];
+        ids[k] = e.target.value === '' ? null : parseInt(e.target.value, 10);
+        onCompareChange(ids);
+      }}
+      className="bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 outline-none text-xs"
+    >
+      <option value="">—</option>
+      <option value={CURRENT_STATE}>Current state</option>
+      {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+    </select>
+  );
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">History</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={undoSteps === 0}
+            className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 disabled:opacity-40 text-white rounded text-xs transition-colors"
+            title={`${undoSteps} step(s) back`}
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={redoSteps === 0}
+            className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 disabled:opacity-40 text-white rounded text-xs transition-colors"
+            title={`${redoSteps} step(s) forward`}
+          >
+            Redo ↷
+          </button>
+        </div>
+      </div>
+
+      {/* Named snapshots */}
+      <div className="flex gap-2 mb-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Snapshot name"
+          className="flex-1 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-xs"
+        />
+        <button onClick={handleSave} className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors">
+          Save snapshot
+        </button>
+      </div>
+      {snapshots.length > 0 && (
+        <ul className="space-y-1 mb-4 text-xs">
+          {snapshots.map(s => (
+            <li key={s.id} className="flex items-center gap-2">
+              <span className="flex-1 text-sraffa-200 truncate">{s.name}</span>
+              <span className="text-[10px] text-sraffa-500 font-mono">{new Date(s.createdAt).toLocaleTimeString()}</span>
+              <button onClick={() => onRestoreSnapshot(s.id)} className="text-[10px] text-blue-400 hover:text-blue-300">restore</button>
+              <button onClick={() => onDeleteSnapshot(s.id)} className="text-[10px] text-red-400 hover:text-red-300">delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Side-by-side comparison */}
+      <div className="flex items-center gap-2 text-xs text-sraffa-400 mb-3">
+        Compare {selector(0)} with {selector(1)}
+      </div>
+
+      {comparison && (
+        <div className="space-y-3 text-xs">
+          {(comparison.added.length > 0 || comparison.removed.length > 0) && (
+            <div className="text-yellow-300">
+              {comparison.removed.length > 0 && <div>Removed: {comparison.removed.join(', ')}</div>}
+              {comparison.added.length > 0 && <div>Added: {comparison.added.join(', ')}</div>}
+            </div>
+          )}
+
+          <table className="w-full">
+            <tbody className="font-mono">
+              <tr className="border-t border-sraffa-700/50">
+                <td className="py-0.5 font-sans text-sraffa-200">Rate of profit r</td>
+                <td className="py-0.5 text-right">{formatChange(comparison.profitRateBefore * 100, comparison.profitRateAfter * 100, 2, '%')}</td>
+              </tr>
+              <tr className="border-t border-sraffa-700/50">
+                <td className="py-0.5 font-sans text-sraffa-200">Maximum rate R</td>
+                <td className="py-0.5 text-right">
+                  {formatChange(comparison.before && comparison.before.maxProfitRate * 100, comparison.after && comparison.after.maxProfitRate * 100, 2, '%')}
+                </td>
+              </tr>
+              <tr className="border-t border-sraffa-700/50">
+                <td className="py-0.5 font-sans text-sraffa-200">Wage share</td>
+                <td className="py-0.5 text-right">{formatChange(comparison.before?.wageShare ?? null, comparison.after?.wageShare ?? null, 1, '%')}</td>
+              </tr>
+              <tr className="border-t border-sraffa-700/50">
+                <td className="py-0.5 font-sans text-sraffa-200">Profit share</td>
+                <td className="py-0.5 text-right">{formatChange(comparison.before?.profitShare ?? null, comparison.after?.profitShare ?? null, 1, '%')}</td>
+              </tr>
+              {comparison.priceChanges.map(pc => (
+                <tr key={pc.commodity} className="border-t border-sraffa-700/50">
+                  <td className="py-0.5 font-sans text-sraffa-200">Price of {pc.commodity}</td>
+                  <td className="py-0.5 text-right">{formatChange(pc.before, pc.after, 4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <div className="text-sraffa-400 uppercase tracking-widest mb-1">Changed cells ({comparison.cellChanges.length})</div>
+            {comparison.cellChanges.length === 0 ? (
+              <div className="text-sraffa-500">The technique is the same.</div>
+            ) : (
+              <table className="w-full font-mono">
+                <tbody>
+                  {comparison.cellChanges.map((c, k) => (
+                    <tr key={k} className="border-t border-sraffa-700/50">
+                      <td className="py-0.5 font-sans text-sraffa-300">{c.input} in {c.industry}</td>
+                      <td className="py-0.5 text-right">{formatChange(c.before, c.after, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,125 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Commodity, InputMatrix, IOTable, SectorMapping } from '../types';
+import { aggregateIOTable, ioTableToSystem, parseIOTable } from '../utils/ioTable';
+
+interface IOImportPanelProps {
+  onImport: (commodities: Commodity[], matrix: InputMatrix) => void;
+}
+
+const IOImportPanel: React.FC<IOImportPanelProps> = ({ onImport }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState<string>('');
+  const [table, setTable] = useState<IOTable | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<SectorMapping>({});
+
+  const aggregated = useMemo(() => (table ? aggregateIOTable(table, mapping) : null), [table, mapping]);
+
+  const handleParse = (csv: string) => {
+    const result = parseIOTable(csv);
+    setTable(result.table);
+    setErrors(result.errors);
+    setMapping({});
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const csv = await file.text();
+    setText(csv);
+    handleParse(csv);
+  };
+
+  const handleApply = () => {
+    if (!aggregated) return;
+    const { commodities, matrix } = ioTableToSystem(aggregated);
+    onImport(commodities, matrix);
+  };
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Import Input–Output Table</h3>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-3 py-1.5 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors"
+        >
+          Open CSV
+        </button>
+        <input ref={fileInput} type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+
+      <textarea
+        value={text}
+        rows={4}
+        placeholder={'Sector,Agriculture,Industry,Output,Compensation\nAgriculture,20,35,120,40\nIndustry,30,50,200,70'}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full bg-sraffa-900 text-sraffa-200 p-2 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-xs font-mono"
+      />
+      <button
+        onClick={() => handleParse(text)}
+        disabled={!text.trim()}
+        className="mt-2 px-3 py-1.5 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors disabled:opacity-30"
+      >
+        Read table
+      </button>
+
+      {errors.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/20 border border-red-900/50 rounded text-red-300 text-xs space-y-1">
+          {errors.map((err, k) => <div key={k}>{err}</div>)}
+        </div>
+      )}
+
+      {table && aggregated && (
+        <>
+          {/* Sector aggregation: sectors given the same aggregate name are summed */}
+          <div className="mt-4 max-h-56 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-sraffa-800">
+                <tr className="text-sraffa-400 uppercase tracking-widest">
+                  <th className="text-left font-medium pb-1">Sector</th>
+                  <th className="text-right font-medium pb-1">Output</th>
+                  <th className="text-right font-medium pb-1">Labour</th>
+                  <th className="text-left font-medium pb-1 pl-3">Aggregate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.sectors.map((s, i) => (
+                  <tr key={s} className="border-t border-sraffa-700/50">
+                    <td className="py-0.5 text-sraffa-200">{s}</td>
+                    <td className="py-0.5 text-right font-mono text-sraffa-300">{table.grossOutput[i].toFixed(1)}</td>
+                    <td className="py-0.5 text-right font-mono text-yellow-400">{table.labour[i].toFixed(1)}</td>
+                    <td className="py-0.5 pl-3">
+                      <input
+                        value={mapping[s] ?? ''}
+                        placeholder={s}
+                        onChange={(e) => setMapping({ ...mapping, [s]: e.target.value })}
+                        className="w-full bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex items-center justify-between text-xs text-sraffa-400">
+            <span>{table.sectors.length} sectors → {aggregated.sectors.length} commodities</span>
+            <button
+              onClick={handleApply}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs transition-colors"
+            >
+              Load into engine
+            </button>
+          </div>
+          <div className="mt-1 text-[10px] text-sraffa-500">
+            Flows are in money of the base year, so all prices equal 1 at the observed distribution.
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default IOImportPanel;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { LabourType } from '../types';
+
+interface LabourTypesPanelProps {
+  types: LabourType[] | null;
+  wage: number;                   // Wage of a unit of reduced labour, set by the numeraire
+  wagesByType: number[] | null;   // Wage bill of each type
+  onEnable: () => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onUpdate: (index: number, field: 'name' | 'relativeWage', value: string | number) => void;
+}
+
+const LabourTypesPanel: React.FC<LabourTypesPanelProps> = ({
+  types,
+  wage,
+  wagesByType,
+  onEnable,
+  onAdd,
+  onRemove,
+  onUpdate
+}) => {
+  const totalWages = wagesByType?.reduce((s, x) => s + x, 0) ?? 0;
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Labour Types</h3>
+        {types ? (
+          <button onClick={onAdd} className="text-xs px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded transition-colors">
+            + Add type
+          </button>
+        ) : (
+          <button onClick={onEnable} className="text-xs px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded transition-colors">
+            Split labour by type
+          </button>
+        )}
+      </div>
+
+      {types ? (
+        <>
+          <table className="w-full text-xs mb-3">
+            <thead>
+              <tr className="text-sraffa-400 uppercase tracking-widest">
+                <th className="text-left font-medium pb-1">Type</th>
+                <th className="text-right font-medium pb-1" title="Wage relative to the wage w set by the numeraire">Relative wage</th>
+                <th className="text-right font-medium pb-1">Wage</th>
+                <th className="text-right font-medium pb-1">Wage bill</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {types.map((t, k) => (
+                <tr key={t.id} className="border-t border-sraffa-700/50">
+                  <td className="py-1">
+                    <input
+                      type="text" value={t.name}
+                      onChange={(e) => onUpdate(k, 'name', e.target.value)}
+                      className="w-full bg-transparent font-sans text-sraffa-200 outline-none border-b border-transparent focus:border-yellow-500"
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <input
+                      type="number" step="0.05" min="0" value={t.relativeWage}
+                      onChange={(e) => {
+                        const num = parseFloat(e.target.value);
+                        if (!isNaN(num)) onUpdate(k, 'relativeWage', Math.max(0, num));
+                      }}
+                      className="w-20 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right"
+                    />
+                  </td>
+                  <td className="py-1 text-right text-yellow-300">{(t.relativeWage * wage).toFixed(4)}</td>
+                  <td className="py-1 text-right text-yellow-400">
+                    {wagesByType?.[k] !== undefined ? wagesByType[k].toFixed(2) : '—'}
+                    {wagesByType && totalWages > 0 && (
+                      <span className="text-[10px] text-sraffa-500"> ({((wagesByType[k] / totalWages) * 100).toFixed(1)}%)</span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => onRemove(k)}
+                      className="text-sraffa-500 hover:text-red-400"
+                      title={types.length === 1 ? 'Back to uniform labour' : 'Remove type'}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-[10px] text-sraffa-500">
+            Hours are entered by type in the technology table. An hour of each type counts as its relative wage in hours
+            of reduced labour, which is what prices and labour values are computed with.
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-sraffa-400">
+          Labour is uniform: every hour is paid the same wage. Split it into types to give each its own relative wage.
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default LabourTypesPanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Commodity, LabourValueAnalysis } from '../types';
+
+interface LabourValuePanelProps {
+  commodities: Commodity[];
+  prices: number[];
+  analysis: LabourValueAnalysis;
+}
+
+const LabourValuePanel: React.FC<LabourValuePanelProps> = ({
+  commodities,
+  prices,
+  analysis
+}) => {
+  const fmt = (x: number | null, digits = 4) => (x === null ? '-' : x.toFixed(digits));
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Labour Values</h3>
+        <span className="text-xs bg-sraffa-900 text-sraffa-300 px-2 py-1 rounded border border-sraffa-700">
+          Value of labour power = {analysis.valueOfLabourPower.toFixed(4)}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-sraffa-400 uppercase tracking-widest">
+              <th className="text-left font-medium pb-2">Commodity</th>
+              <th className="text-right font-medium pb-2">Value λ</th>
+              <th className="text-right font-medium pb-2">Price p</th>
+              <th className="text-right font-medium pb-2">p / λ</th>
+              <th className="text-right font-medium pb-2">c</th>
+              <th className="text-right font-medium pb-2">v</th>
+              <th className="text-right font-medium pb-2">s</th>
+              <th className="text-right font-medium pb-2">c / v</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {commodities.map((c, i) => {
+              const ratio = analysis.priceValueRatios[i];
+              return (
+                <tr key={c.id} className="border-t border-sraffa-700/50">
+                  <td className="py-1 font-sans font-bold text-sraffa-200">{c.name}</td>
+                  <td className={`py-1 text-right ${analysis.values[i] < 0 ? 'text-red-400' : 'text-sraffa-200'}`}>{analysis.values[i].toFixed(4)}</td>
+                  <td className="py-1 text-right text-blue-300">{prices[i].toFixed(4)}</td>
+                  <td className={`py-1 text-right ${ratio !== null && ratio > 1 ? 'text-green-400' : 'text-yellow-400'}`}>{fmt(ratio, 3)}</td>
+                  <td className="py-1 text-right text-sraffa-300">{analysis.constantCapital[i].toFixed(2)}</td>
+                  <td className="py-1 text-right text-sraffa-300">{analysis.variableCapital[i].toFixed(2)}</td>
+                  <td className="py-1 text-right text-sraffa-300">{analysis.surplusValue[i].toFixed(2)}</td>
+                  <td className="py-1 text-right text-blue-300">{fmt(analysis.organicComposition[i], 3)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-1 text-[10px] text-sraffa-500">p / λ with prices scaled so that total price equals total value.</div>
+
+      {/* Aggregate equalities: only one of them can hold at a time when r > 0 */}
+      <table className="w-full text-xs mt-4">
+        <thead>
+          <tr className="text-sraffa-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-1">Normalisation</th>
+            <th className="text-right font-medium pb-1">Price / Value</th>
+            <th className="text-right font-medium pb-1">Profit / Surplus</th>
+            <th className="text-right font-medium pb-1">Wages / v</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {analysis.normalisations.map(nm => (
+            <tr key={nm.label} className="border-t border-sraffa-700/50 text-sraffa-200">
+              <td className="py-1 font-sans text-sraffa-300">{nm.label}</td>
+              <td className="py-1 text-right">{nm.totalPrice.toFixed(2)} / {nm.totalValue.toFixed(2)}</td>
+              <td className="py-1 text-right">{nm.totalProfit.toFixed(2)} / {nm.totalSurplusValue.toFixed(2)}</td>
+              <td className="py-1 text-right">{nm.totalWages.toFixed(2)} / {nm.totalVariableCapital.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default LabourValuePanel;
@@ -0,0 +1,235 @@
+import React from 'react';
+import { Commodity, LandAnalysis, LandMethod, LandSpec } from '../types';
+
+interface LandPanelProps {
+  commodities: Commodity[];
+  spec: LandSpec | null;
+  analysis: LandAnalysis | null;
+  onEnable: () => void;
+  onChange: (spec: LandSpec | null) => void;
+}
+
+const LandPanel: React.FC<LandPanelProps> = ({
+  commodities,
+  spec,
+  analysis,
+  onEnable,
+  onChange
+}) => {
+
+  const updateMethod = (k: number, m: number, method: LandMethod) => {
+    if (!spec) return;
+    const qualities = spec.qualities.map((q, idx) => idx !== k ? q : {
+      ...q,
+      methods: q.methods.map((old, midx) => (midx === m ? method : old))
+    });
+    onChange({ ...spec, qualities });
+  };
+
+  const handleMethodChange = (k: number, m: number, field: 'output' | 'labor' | number, val: string) => {
+    if (!spec) return;
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    const method = spec.qualities[k].methods[m];
+    if (typeof field === 'number') {
+      const inputs = [...method.inputs];
+      inputs[field] = Math.max(0, num);
+      updateMethod(k, m, { ...method, inputs });
+    } else {
+      updateMethod(k, m, { ...method, [field]: Math.max(0, num) });
+    }
+  };
+
+  const handleQualityChange = (k: number, field: 'name' | 'acres', val: string) => {
+    if (!spec) return;
+    const qualities = spec.qualities.map((q, idx) => {
+      if (idx !== k) return q;
+      if (field === 'name') return { ...q, name: val };
+      const num = parseFloat(val);
+      return isNaN(num) ? q : { ...q, acres: Math.max(0, num) };
+    });
+    onChange({ ...spec, qualities });
+  };
+
+  const handleAddQuality = () => {
+    if (!spec) return;
+    const newId = (Math.max(0, ...spec.qualities.map(q => q.id))) + 1;
+    const template = spec.qualities[spec.qualities.length - 1]?.methods[0];
+    onChange({
+      ...spec,
+      qualities: [...spec.qualities, {
+        id: newId,
+        name: `Land ${newId}`,
+        acres: 100,
+        methods: [template ? { ...template, inputs: [...template.inputs] } : { inputs: commodities.map(() => 0), labor: 0.1, output: 1 }]
+      }]
+    });
+  };
+
+  const handleRemoveQuality = (k: number) => {
+    if (!spec || spec.qualities.length <= 1) return;
+    onChange({ ...spec, qualities: spec.qualities.filter((_, idx) => idx !== k) });
+  };
+
+  const handleToggleSecondMethod = (k: number) => {
+    if (!spec) return;
+    const qualities = spec.qualities.map((q, idx) => {
+      if (idx !== k) return q;
+      if (q.methods.length > 1) return { ...q, methods: [q.methods[0]] };
+      // A more intensive method: more output per acre at a more than proportional cost
+      const m = q.methods[0];
+      return {
+        ...q,
+        methods: [m, { inputs: m.inputs.map(x => x * 1.5), labor: m.labor * 1.5, output: m.output * 1.3 }]
+      };
+    });
+    onChange({ ...spec, qualities });
+  };
+
+  const methodRow = (k: number, m: number, method: LandMethod) => (
+    <div key={m} className="flex items-center gap-1 text-xs">
+      <span className="w-16 shrink-0 text-sraffa-500">Method {m + 1}</span>
+      <label className="flex items-center gap-1 text-green-400">
+        out
+        <input
+          type="number" step="0.1" min="0" value={method.output}
+          onChange={(e) => handleMethodChange(k, m, 'output', e.target.value)}
+          className="w-16 bg-sraffa-900 text-green-300 p-1 rounded border border-sraffa-700 focus:border-green-500 outline-none text-right"
+        />
+      </label>
+      <label className="flex items-center gap-1 text-yellow-400">
+        L
+        <input
+          type="number" step="0.01" min="0" value={method.labor}
+          onChange={(e) => handleMethodChange(k, m, 'labor', e.target.value)}
+          className="w-16 bg-sraffa-900 text-yellow-300 p-1 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right"
+        />
+      </label>
+      {commodities.map((c, i) => (
+        <label key={c.id} className="flex items-center gap-1 text-sraffa-400" title={`${c.name} used per acre`}>
+          {c.name.slice(0, 3)}
+          <input
+            type="number" step="0.01" min="0" value={method.inputs[i] ?? 0}
+            onChange={(e) => handleMethodChange(k, m, i, e.target.value)}
+            className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+          />
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Land and Rent</h3>
+        <button
+          onClick={() => (spec ? onChange(null) : onEnable())}
+          className={`text-xs px-2 py-1 rounded border transition-colors ${spec ? 'bg-green-900/30 text-green-300 border-green-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+        >
+          {spec ? 'Scarce land: on' : 'Scarce land: off'}
+        </button>
+      </div>
+
+      {spec && (
+        <>
+          <div className="flex items-center justify-between mb-3 text-xs text-sraffa-400">
+            <label className="flex items-center gap-2">
+              Agricultural commodity
+              <select
+                value={spec.crop}
+                onChange={(e) => onChange({ ...spec, crop: parseInt(e.target.value, 10) })}
+                className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+              >
+                {commodities.map((c, i) => (
+                  <option key={c.id} value={i}>{c.name}</option>
+                ))}
+              </select>
+            </label>
+            {analysis && (
+              <span className="text-sraffa-300">
+                {analysis.regime === 'extensive' ? 'Extensive' : 'Intensive'} rent, marginal land:{' '}
+                <span className="font-bold text-sraffa-100">{spec.qualities[analysis.marginal]?.name}</span>
+              </span>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {spec.qualities.map((q, k) => {
+              const c = analysis?.cultivation[k];
+              const isMarginal = analysis?.marginal === k;
+              return (
+                <div key={q.id} className={`p-3 rounded border ${isMarginal ? 'border-blue-600 bg-blue-900/10' : 'border-sraffa-700/50 bg-sraffa-900/30'}`}>
+                  <div className="flex items-center justify-between mb-2 gap-2">
+                    <input
+                      value={q.name}
+                      onChange={(e) => handleQualityChange(k, 'name', e.target.value)}
+                      className="w-28 bg-transparent text-sraffa-200 border-b border-sraffa-600 focus:border-blue-400 outline-none text-sm font-bold"
+                    />
+                    <label className="flex items-center gap-1 text-xs text-sraffa-400">
+                      acres
+                      <input
+                        type="number" step="1" min="0" value={q.acres}
+                        onChange={(e) => handleQualityChange(k, 'acres', e.target.value)}
+                        className="w-20 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                      />
+                    </label>
+                    <div className="text-right font-mono text-xs">
+                      {c && c.rentPerAcre !== null ? (
+                        <>
+                          <div className={c.rentPerAcre < -1e-9 ? 'text-red-400' : 'text-green-400'}>
+                            rent/acre {c.rentPerAcre.toFixed(4)}
+                          </div>
+                          <div className="text-[10px] text-sraffa-500">
+                            {c.acresUsed.toFixed(1)} acres cultivated
+                            {c.intensiveShare > 0 && `, ${(c.intensiveShare * 100).toFixed(0)}% intensively`}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-sraffa-500">not cultivated</div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-y-1 overflow-x-auto">
+                    {q.methods.map((m, midx) => methodRow(k, midx, m))}
+                  </div>
+                  <div className="flex gap-3 mt-2 text-[10px]">
+                    <button onClick={() => handleToggleSecondMethod(k)} className="text-blue-400 hover:text-blue-300">
+                      {q.methods.length > 1 ? 'remove second method' : 'add intensive method'}
+                    </button>
+                    <button
+                      onClick={() => handleRemoveQuality(k)}
+                      disabled={spec.qualities.length <= 1}
+                      className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                    >
+                      remove land
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={handleAddQuality}
+            className="mt-4 px-4 py-2 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <span>+</span> Add Land Quality
+          </button>
+
+          {analysis && !analysis.isFeasible && (
+            <div className="mt-4 p-3 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-xs">
+              All land, fully and intensively cultivated, cannot produce the required output of {commodities[spec.crop]?.name}.
+            </div>
+          )}
+          {!analysis && (
+            <div className="mt-4 p-3 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-xs">
+              No land can be cultivated, or the required output exceeds capacity and no land has an intensive method.
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default LandPanel;
@@ -1,11 +1,18 @@
 import React from 'react';
-import { Commodity, InputMatrix } from '../types';
+import { Commodity, InputMatrix, LabourType, OutputMatrix, ReducibilityAnalysis } from '../types';
 
 interface MatrixInputProps {
   commodities: Commodity[];
   matrix: InputMatrix;
+  outputMatrix?: OutputMatrix | null;
+  reducibility?: ReducibilityAnalysis;
+  heatmap?: { inputs: number[][]; labor: number[] } | null; // Elasticities of one price, by cell
+  labourTypes?: LabourType[] | null; // Hours are entered by type and reduced to the Labor row
   onUpdateMatrix: (newMatrix: InputMatrix) => void;
+  onUpdateOutputMatrix?: (newOutputMatrix: OutputMatrix) => void;
+  onToggleJointProduction?: () => void;
   onUpdateCommodity: (index: number, field: keyof Commodity, value: any) => void;
+  onUpdateLabourByType?: (index: number, type: number, hours: number) => void;
   onAddCommodity: () => void;
   onRemoveCommodity: (index: number) => void;
 }
@@ -13,8 +20,15 @@ interface MatrixInputProps {
 const MatrixInput: React.FC<MatrixInputProps> = ({
   commodities,
   matrix,
+  outputMatrix,
+  reducibility,
+  heatmap,
+  labourTypes,
   onUpdateMatrix,
+  onUpdateOutputMatrix,
+  onToggleJointProduction,
   onUpdateCommodity,
+  onUpdateLabourByType,
   onAddCommodity,
   onRemoveCommodity
 }) => {
@@ -27,9 +41,46 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
     onUpdateMatrix(newMatrix);
   };
 
+  const handleOutputMatrixChange = (row: number, col: number, val: string) => {
+    const num = parseFloat(val);
+    if (isNaN(num) || !outputMatrix || !onUpdateOutputMatrix) return;
+    const newOutputMatrix = outputMatrix.map(r => [...r]);
+    newOutputMatrix[row][col] = num;
+    onUpdateOutputMatrix(newOutputMatrix);
+  };
+
+  // Cells are shaded by |elasticity| relative to the largest one: blue raises the price, red lowers it
+  const heatScale = heatmap ? Math.max(1e-12, ...heatmap.inputs.flat().map(Math.abs), ...heatmap.labor.map(Math.abs)) : 1;
+  const heatStyle = (e: number | undefined): React.CSSProperties | undefined => {
+    if (!heatmap || e === undefined) return undefined;
+    const alpha = (0.6 * Math.abs(e)) / heatScale;
+    return { backgroundColor: e >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(248, 113, 113, ${alpha})` };
+  };
+
   return (
     <div className="bg-sraffa-800 p-6 rounded-xl shadow-lg border border-sraffa-600 overflow-x-auto">
-      <h3 className="text-xl font-light text-sraffa-100 mb-4 font-serif italic">Technological Structure</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Technological Structure</h3>
+        <div className="flex items-center gap-2">
+          {onToggleJointProduction && (
+            <button
+              onClick={onToggleJointProduction}
+              className={`text-xs px-2 py-1 rounded border transition-colors ${outputMatrix ? 'bg-blue-900/40 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+              title="Let each process produce several commodities (Sraffa, Part II)"
+            >
+              {outputMatrix ? 'Joint production: on' : 'Joint production: off'}
+            </button>
+          )}
+          {reducibility && (
+            <span
+              className={`text-xs px-2 py-1 rounded border ${reducibility.isReducible ? 'bg-yellow-900/20 text-yellow-300 border-yellow-800' : 'bg-sraffa-900 text-sraffa-300 border-sraffa-700'}`}
+              title={`Components: ${reducibility.components.map(comp => `{${comp.map(i => commodities[i]?.name).join(', ')}}`).join(' ')}`}
+            >
+              {reducibility.isReducible ? 'Reducible system' : 'Irreducible system'}
+            </span>
+          )}
+        </div>
+      </div>
       
       <div className="min-w-[600px]">
         {/* Header Row */}
@@ -42,6 +93,11 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
                 onChange={(e) => onUpdateCommodity(i, 'name', e.target.value)}
                 className="w-full bg-transparent text-center text-sraffa-200 border-b border-sraffa-600 focus:border-blue-400 outline-none text-sm font-bold transition-colors"
               />
+              {reducibility && (
+                <span className={`text-[10px] uppercase tracking-widest ${reducibility.isBasic[i] ? 'text-green-400' : 'text-sraffa-500'}`}>
+                  {reducibility.isBasic[i] ? 'basic' : 'non-basic'}
+                </span>
+              )}
                <button 
                 onClick={() => onRemoveCommodity(i)}
                 className="absolute -top-5 right-0 text-[10px] text-red-400 opacity-0 group-hover:opacity-100 transition-opacity hover:text-red-300"
@@ -54,6 +110,7 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
           ))}
            <div className="w-24 shrink-0 flex flex-col items-center justify-end pb-2 border-l border-sraffa-700 ml-2 pl-2">
             <span className="text-xs text-green-400 font-bold">Total Output</span>
+            {outputMatrix && <span className="text-[10px] text-sraffa-500">(all processes)</span>}
            </div>
            <div className="w-24 shrink-0 flex flex-col items-center justify-end pb-2 border-l border-sraffa-700 pl-2">
             <span className="text-xs text-yellow-400 font-bold">Labor Input</span>
@@ -77,6 +134,8 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
                   min="0"
                   value={matrix[rowIdx][colIdx]}
                   onChange={(e) => handleMatrixChange(rowIdx, colIdx, e.target.value)}
+                  style={heatStyle(heatmap?.inputs[rowIdx]?.[colIdx])}
+                  title={heatmap ? `Elasticity ${heatmap.inputs[rowIdx]?.[colIdx]?.toFixed(4)}` : undefined}
                   className="w-full bg-sraffa-900 text-white p-2 rounded border border-sraffa-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none text-right text-sm transition-all"
                 />
               </div>
@@ -84,14 +143,20 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
             
             {/* Total Output Column */}
              <div className="w-24 shrink-0 px-1 border-l border-sraffa-700 ml-2 pl-2">
-                  <input
-                    type="number"
-                    min="0.001"
-                    step="1"
-                    value={commodities[rowIdx].totalOutput}
-                    onChange={(e) => onUpdateCommodity(rowIdx, 'totalOutput', parseFloat(e.target.value))}
-                    className="w-full bg-sraffa-900/50 text-green-400 font-bold p-2 rounded border border-sraffa-700 focus:border-green-500 outline-none text-right text-sm"
-                  />
+                  {outputMatrix ? (
+                    <div className="w-full text-green-400 font-bold p-2 text-right text-sm font-mono">
+                      {outputMatrix[rowIdx].reduce((s, b) => s + b, 0)}
+                    </div>
+                  ) : (
+                    <input
+                      type="number"
+                      min="0.001"
+                      step="1"
+                      value={commodities[rowIdx].totalOutput}
+                      onChange={(e) => onUpdateCommodity(rowIdx, 'totalOutput', parseFloat(e.target.value))}
+                      className="w-full bg-sraffa-900/50 text-green-400 font-bold p-2 rounded border border-sraffa-700 focus:border-green-500 outline-none text-right text-sm"
+                    />
+                  )}
              </div>
 
              {/* Labor Input Column - Note: Visual alignment trick, labor is actually a vector L_j (columns), but we display it here for compactness? 
@@ -129,18 +194,45 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
 
         <div className="h-px bg-sraffa-600 my-4 w-full"></div>
         
+         {/* Hours by labour type, reduced to the Labor row below */}
+         {labourTypes?.map((t, k) => (
+           <div key={t.id} className="flex mb-2 items-center">
+             <div className="w-32 shrink-0 text-right pr-4 text-yellow-200 text-sm truncate" title={`Relative wage ${t.relativeWage}`}>
+               {t.name}
+             </div>
+             {commodities.map((c, i) => (
+               <div key={c.id} className="w-24 shrink-0 px-1">
+                  <input
+                    type="number"
+                    min="0"
+                    value={c.laborByType?.[k] ?? 0}
+                    onChange={(e) => {
+                      const num = parseFloat(e.target.value);
+                      if (!isNaN(num)) onUpdateLabourByType?.(i, k, num);
+                    }}
+                    className="w-full bg-sraffa-900 text-yellow-200 p-2 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right text-sm"
+                  />
+               </div>
+             ))}
+             <div className="w-24 ml-2 pl-2"></div>
+           </div>
+         ))}
+
          {/* Labor Input Row */}
          <div className="flex mb-2 items-center">
              <div className="w-32 shrink-0 text-right pr-4 text-yellow-400 font-bold text-sm">
-               Labor (L)
+               {labourTypes ? 'Reduced (L)' : 'Labor (L)'}
              </div>
              {commodities.map((c, i) => (
                <div key={c.id} className="w-24 shrink-0 px-1">
                   <input
                     type="number"
                     min="0"
-                    value={c.laborInput}
+                    value={labourTypes ? Number(c.laborInput.toFixed(4)) : c.laborInput}
+                    readOnly={!!labourTypes}
                     onChange={(e) => onUpdateCommodity(i, 'laborInput', parseFloat(e.target.value))}
+                    style={heatStyle(heatmap?.labor[i])}
+                    title={heatmap ? `Elasticity ${heatmap.labor[i]?.toFixed(4)}` : undefined}
                     className="w-full bg-sraffa-900/50 text-yellow-400 font-bold p-2 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right text-sm"
                   />
                </div>
@@ -149,6 +241,38 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
              <div className="w-24 ml-2 pl-2"></div> 
         </div>
 
+        {/* Output Matrix (joint production): rows = commodities produced, columns = processes */}
+        {outputMatrix && (
+          <>
+            <div className="h-px bg-sraffa-600 my-4 w-full"></div>
+            <div className="flex mb-2">
+              <div className="w-32 shrink-0 flex items-end justify-end pb-2 pr-2 text-sraffa-400 text-sm">Outputs ↓ \ Processes →</div>
+              {commodities.map((c, i) => (
+                <div key={c.id} className="w-24 shrink-0 text-center text-xs text-sraffa-400 pb-2">Process {i + 1}</div>
+              ))}
+            </div>
+            {commodities.map((rowComm, rowIdx) => (
+              <div key={rowComm.id} className="flex mb-2 items-center group">
+                <div className="w-32 shrink-0 text-right pr-4 text-green-400 font-medium text-sm truncate">
+                  {rowComm.name} Produced
+                </div>
+                {commodities.map((colComm, colIdx) => (
+                  <div key={`${rowIdx}-${colIdx}`} className="w-24 shrink-0 px-1">
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={outputMatrix[rowIdx][colIdx]}
+                      onChange={(e) => handleOutputMatrixChange(rowIdx, colIdx, e.target.value)}
+                      className="w-full bg-sraffa-900 text-green-300 p-2 rounded border border-sraffa-700 focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none text-right text-sm transition-all"
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+
         <div className="mt-6">
           <button 
             onClick={onAddCommodity}
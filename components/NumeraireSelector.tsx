@@ -0,0 +1,116 @@
+import React from 'react';
+import { Commodity, NumeraireSpec } from '../types';
+
+interface NumeraireSelectorProps {
+  commodities: Commodity[];
+  spec: NumeraireSpec;
+  resolvedWage: number | null;
+  hasStandard: boolean;
+  onChange: (spec: NumeraireSpec) => void;
+}
+
+const NumeraireSelector: React.FC<NumeraireSelectorProps> = ({
+  commodities,
+  spec,
+  resolvedWage,
+  hasStandard,
+  onChange
+}) => {
+
+  const handleKindChange = (kind: NumeraireSpec['kind']) => {
+    switch (kind) {
+      case 'wage':
+        onChange({ kind, wage: resolvedWage ?? 1 });
+        break;
+      case 'commodity':
+        onChange({ kind, commodity: 0 });
+        break;
+      case 'basket':
+        onChange({ kind, weights: commodities.map(() => 1) });
+        break;
+      default:
+        onChange({ kind });
+    }
+  };
+
+  const handleWeightChange = (index: number, val: string) => {
+    if (spec.kind !== 'basket') return;
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    const weights = commodities.map((_, i) => spec.weights[i] ?? 0);
+    weights[index] = Math.max(0, num);
+    onChange({ ...spec, weights });
+  };
+
+  return (
+    <div className="bg-sraffa-900 p-3 rounded border border-sraffa-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-sraffa-400">Numeraire</div>
+        <select
+          value={spec.kind}
+          onChange={(e) => handleKindChange(e.target.value as NumeraireSpec['kind'])}
+          className="bg-sraffa-800 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 text-xs outline-none focus:border-blue-500"
+        >
+          <option value="wage">Nominal wage</option>
+          <option value="commodity">Single commodity</option>
+          <option value="netProduct">Net product basket</option>
+          <option value="standard" disabled={!hasStandard}>Standard commodity</option>
+          <option value="basket">Custom basket</option>
+        </select>
+      </div>
+
+      {spec.kind === 'commodity' && (
+        <div className="flex items-center justify-between text-xs text-sraffa-400">
+          <span>Price set to 1</span>
+          <select
+            value={spec.commodity}
+            onChange={(e) => onChange({ kind: 'commodity', commodity: parseInt(e.target.value, 10) })}
+            className="bg-sraffa-800 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+          >
+            {commodities.map((c, i) => (
+              <option key={c.id} value={i}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {spec.kind === 'basket' && (
+        <div className="flex flex-wrap gap-2 text-xs text-sraffa-400">
+          {commodities.map((c, i) => (
+            <label key={c.id} className="flex items-center gap-1">
+              {c.name}
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={spec.weights[i] ?? 0}
+                onChange={(e) => handleWeightChange(i, e.target.value)}
+                className="w-16 bg-sraffa-800 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-sraffa-400">Wage Rate (w)</div>
+        {spec.kind === 'wage' ? (
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={spec.wage}
+            onChange={(e) => onChange({ kind: 'wage', wage: Math.max(0, parseFloat(e.target.value)) })}
+            className="bg-transparent text-right text-xl font-mono text-yellow-400 focus:outline-none focus:border-b focus:border-yellow-500 w-24"
+          />
+        ) : (
+          <div className="text-right text-xl font-mono text-yellow-400">
+            {resolvedWage !== null ? resolvedWage.toFixed(4) : 'undefined'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NumeraireSelector;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Commodity, ProfitHierarchyAnalysis } from '../types';
+
+interface ProfitRatesPanelProps {
+  commodities: Commodity[];
+  factors: number[] | null;              // r_j = factors[j] * r; null for a uniform rate
+  profitRate: number;                    // The base rate r
+  analysis: ProfitHierarchyAnalysis | null;
+  hasLand: boolean;                      // Scarce land is priced at the uniform rate
+  onChange: (factors: number[] | null) => void;
+}
+
+const ProfitRatesPanel: React.FC<ProfitRatesPanelProps> = ({
+  commodities,
+  factors,
+  profitRate,
+  analysis,
+  hasLand,
+  onChange
+}) => {
+  const setFactor = (j: number, value: number) => {
+    if (!factors || isNaN(value)) return;
+    onChange(factors.map((f, k) => (k === j ? Math.max(0, value) : f)));
+  };
+
+  // A rate entered directly fixes the industry's place in the hierarchy at the current base rate
+  const setRate = (j: number, rate: number) => {
+    if (profitRate > 0) setFactor(j, rate / profitRate);
+  };
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Sectoral Profit Rates</h3>
+        <div className="flex gap-1">
+          {(['uniform', 'hierarchy'] as const).map(mode => {
+            const active = mode === 'uniform' ? factors === null : factors !== null;
+            return (
+              <button
+                key={mode}
+                onClick={() => onChange(mode === 'uniform' ? null : commodities.map(() => 1))}
+                disabled={active}
+                className={`text-xs px-2 py-1 rounded border transition-colors ${active ? 'bg-blue-900/30 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+              >
+                {mode === 'uniform' ? 'Uniform' : 'Hierarchy'}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {!factors ? (
+        <div className="text-xs text-sraffa-400">
+          Every industry earns the same rate r = {(profitRate * 100).toFixed(1)}%. A hierarchy sets each industry's rate
+          as a multiple of r, for monopoly or mark-up pricing.
+        </div>
+      ) : (
+        <>
+          {hasLand && (
+            <div className="text-[10px] text-yellow-400 mb-2">
+              Scarce land is priced at the uniform rate; the hierarchy applies once land is removed.
+            </div>
+          )}
+          <table className="w-full text-xs mb-3">
+            <thead>
+              <tr className="text-sraffa-400 uppercase tracking-widest">
+                <th className="text-left font-medium pb-1">Industry</th>
+                <th className="text-right font-medium pb-1" title="r_j / r">Factor</th>
+                <th className="text-right font-medium pb-1">Rate r<sub>j</sub></th>
+                <th className="text-right font-medium pb-1" title="Against the capital-weighted average rate">vs avg</th>
+                <th className="text-right font-medium pb-1" title="Price against the price at the uniform rate r">Price</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {commodities.map((c, j) => {
+                const rate = analysis?.rates[j] ?? factors[j] * profitRate;
+                const gap = analysis ? rate - analysis.averageRate : null;
+                const change = analysis?.priceChanges[j] ?? null;
+                return (
+                  <tr key={c.id} className="border-t border-sraffa-700/50">
+                    <td className="py-1 font-sans text-sraffa-200">{c.name}</td>
+                    <td className="py-1 text-right">
+                      <input
+                        type="number" step="0.05" min="0" value={Number(factors[j].toFixed(4))}
+                        onChange={(e) => setFactor(j, parseFloat(e.target.value))}
+                        className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <input
+                        type="number" step="0.5" min="0" value={Number((rate * 100).toFixed(2))}
+                        disabled={profitRate <= 0}
+                        onChange={(e) => setRate(j, parseFloat(e.target.value) / 100)}
+                        className="w-16 bg-sraffa-900 text-blue-300 p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right disabled:opacity-40"
+                      />
+                      <span className="text-sraffa-500">%</span>
+                    </td>
+                    <td className={`py-1 text-right ${gap === null || Math.abs(gap) < 1e-9 ? 'text-sraffa-500' : gap > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {gap === null ? '—' : `${gap > 0 ? '+' : ''}${(gap * 100).toFixed(2)}pp`}
+                    </td>
+                    <td className={`py-1 text-right ${change === null || Math.abs(change) < 0.005 ? 'text-sraffa-500' : change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(2)}%`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {analysis && (
+            <div className="space-y-1 text-xs text-sraffa-300">
+              <div>
+                Average rate of profit: <span className="font-mono text-blue-300">{(analysis.averageRate * 100).toFixed(2)}%</span>
+                <span className="text-sraffa-500"> (base r = {(profitRate * 100).toFixed(1)}%)</span>
+              </div>
+              <div>
+                Wage share: <span className="font-mono text-yellow-300">{analysis.wageShare.toFixed(1)}%</span>
+                <span className="text-sraffa-500"> against {analysis.uniformWageShare.toFixed(1)}% at a uniform rate</span>
+              </div>
+              <div className="text-[10px] text-sraffa-500">
+                R is the base rate at which the wage vanishes with this hierarchy. Sensitivity, the quantity system, the
+                reduction to dated labour and exact arithmetic assume a uniform rate and are set aside.
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ProfitRatesPanel;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CambridgeClosure, Commodity, QuantitySystem } from '../types';
+
+interface QuantityPanelProps {
+  commodities: Commodity[];
+  quantities: QuantitySystem;
+  cambridge: CambridgeClosure;
+  profitRate: number;
+  maxProfitRate: number;       // R of the basic sub-system
+  onGrowthRateChange: (g: number) => void;
+  onSavingsPropensityChange: (s: number) => void;
+}
+
+const QuantityPanel: React.FC<QuantityPanelProps> = ({
+  commodities,
+  quantities,
+  cambridge,
+  profitRate,
+  maxProfitRate,
+  onGrowthRateChange,
+  onSavingsPropensityChange
+}) => {
+  const { growthRate, maxGrowthRate } = quantities;
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Quantity System</h3>
+        <span className={`text-xs px-2 py-1 rounded border ${quantities.isFeasible ? 'bg-green-900/30 text-green-300 border-green-800' : 'bg-red-900/30 text-red-300 border-red-800'}`}>
+          {quantities.isFeasible ? 'Balanced path feasible' : 'Negative activity levels'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="text-sraffa-400">Growth rate g</span>
+            <span className="font-mono text-sraffa-100">{(growthRate * 100).toFixed(2)}%</span>
+          </div>
+          <input
+            type="range" min="0" max={maxGrowthRate} step={maxGrowthRate / 200 || 0.001} value={growthRate}
+            onChange={(e) => onGrowthRateChange(parseFloat(e.target.value))}
+            className="w-full accent-green-500"
+          />
+          <div className="text-[10px] text-sraffa-500 mt-1">
+            {Math.abs(maxGrowthRate - maxProfitRate) < 1e-9
+              ? `Maximum G = R = ${(maxGrowthRate * 100).toFixed(2)}%`
+              : `Maximum G = ${(maxGrowthRate * 100).toFixed(2)}%, below R = ${(maxProfitRate * 100).toFixed(2)}%: a non-basic grows more slowly than the basic system`}
+          </div>
+        </div>
+        <div>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="text-sraffa-400">Saving out of profits s<sub>c</sub></span>
+            <span className="font-mono text-sraffa-100">{cambridge.savingsPropensity.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0.05" max="1" step="0.05" value={cambridge.savingsPropensity}
+            onChange={(e) => onSavingsPropensityChange(parseFloat(e.target.value))}
+            className="w-full accent-green-500"
+          />
+          <div className={`text-[10px] mt-1 ${cambridge.withinR ? 'text-sraffa-500' : 'text-red-400'}`}>
+            Cambridge equation: r = g / s<sub>c</sub> = {(cambridge.profitRate * 100).toFixed(2)}%
+            {!cambridge.withinR && ' — above R, the wage would be negative'}
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full text-xs mb-3">
+        <thead>
+          <tr className="text-sraffa-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-1">Industry</th>
+            <th className="text-right font-medium pb-1">Activity z</th>
+            <th className="text-right font-medium pb-1">Gross output</th>
+            <th className="text-right font-medium pb-1">Consumption</th>
+            <th className="text-right font-medium pb-1">Surplus ratio</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {commodities.map((c, i) => (
+            <tr key={c.id} className="border-t border-sraffa-700/50">
+              <td className="py-0.5 font-sans text-sraffa-200">{c.name}</td>
+              <td className={`py-0.5 text-right ${quantities.activityLevels[i] < 0 ? 'text-red-400' : 'text-sraffa-100'}`}>{quantities.activityLevels[i]?.toFixed(4)}</td>
+              <td className="py-0.5 text-right">{quantities.grossOutput[i]?.toFixed(2)}</td>
+              <td className="py-0.5 text-right">{quantities.consumption[i]?.toFixed(2)}</td>
+              <td className="py-0.5 text-right text-sraffa-400">
+                {quantities.surplusRatios[i] === null ? '—' : `${((quantities.surplusRatios[i] as number) * 100).toFixed(2)}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-1 text-xs text-sraffa-300">
+        <div>
+          The actual outputs can sustain growth up to {(quantities.sustainableGrowthRate * 100).toFixed(2)}% with no consumption;
+          only in Standard proportions do all surplus ratios equal R.
+          {quantities.standardDistance !== null && (
+            <> The Standard system rescales the actual industries by up to {(quantities.standardDistance * 100).toFixed(1)}%.</>
+          )}
+        </div>
+        <div>
+          Duality at r = g: consumption is worth{' '}
+          <span className="font-mono">{quantities.consumptionValue?.toFixed(3) ?? '—'}</span>, the wages paid{' '}
+          <span className="font-mono">{quantities.wageBill.toFixed(3)}</span> (w = 1).
+        </div>
+        <div className="text-sraffa-500">
+          At the current r = {(profitRate * 100).toFixed(1)}%, the Cambridge equation gives g = s<sub>c</sub> r = {(cambridge.savingsPropensity * profitRate * 100).toFixed(2)}%.
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default QuantityPanel;
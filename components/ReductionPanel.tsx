@@ -0,0 +1,156 @@
+import React from 'react';
+import { Commodity, DatedLabourReduction } from '../types';
+
+interface ReductionPanelProps {
+  commodities: Commodity[];
+  reduction: DatedLabourReduction;
+  termCurves: { r: number; values: number[] }[];
+  commodity: number;
+  onCommodityChange: (index: number) => void;
+  onDepthChange: (depth: number) => void;
+}
+
+const TERM_COLORS = ['#facc15', '#60a5fa', '#f472b6', '#34d399', '#c084fc', '#fb923c', '#22d3ee', '#a3e635'];
+const CHART_TERMS = 8; // Dated terms drawn on the chart
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 32, left: 48 };
+
+const ReductionPanel: React.FC<ReductionPanelProps> = ({
+  commodities,
+  reduction,
+  termCurves,
+  commodity,
+  onCommodityChange,
+  onDepthChange
+}) => {
+  const price = reduction.prices[commodity];
+  const residue = reduction.residue[commodity];
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const maxR = termCurves[termCurves.length - 1]?.r ?? 0;
+  const shown = Math.min(CHART_TERMS, reduction.depth);
+  const maxValue = Math.max(1e-12, ...termCurves.flatMap(c => c.values.slice(0, shown)));
+  const x = (r: number) => PAD.left + (maxR > 0 ? (r / maxR) * plotW : 0);
+  const y = (v: number) => PAD.top + plotH - (v / maxValue) * plotH;
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Reduction to Dated Labour</h3>
+        <select
+          value={commodity}
+          onChange={(e) => onCommodityChange(parseInt(e.target.value, 10))}
+          className="bg-sraffa-900 text-sraffa-200 border border-sraffa-700 rounded px-2 py-1 text-xs outline-none focus:border-blue-500"
+        >
+          {commodities.map((c, i) => (
+            <option key={c.id} value={i}>{c.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3 mb-4 text-xs text-sraffa-400">
+        <span>Truncation depth</span>
+        <input
+          type="range"
+          min="1"
+          max="60"
+          step="1"
+          value={reduction.depth}
+          onChange={(e) => onDepthChange(parseInt(e.target.value, 10))}
+          className="flex-1 accent-blue-500"
+        />
+        <span className="font-mono text-sraffa-200 w-8 text-right">{reduction.depth}</span>
+      </div>
+
+      {!reduction.converges && (
+        <div className="mb-4 p-3 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-xs">
+          r is at or above R: the series of dated labour terms does not converge.
+        </div>
+      )}
+
+      {/* Terms and convergence of the partial sums */}
+      <div className="max-h-56 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-sraffa-800">
+            <tr className="text-sraffa-400 uppercase tracking-widest">
+              <th className="text-left font-medium pb-1">k</th>
+              <th className="text-right font-medium pb-1">Labour l A^k</th>
+              <th className="text-right font-medium pb-1">Term</th>
+              <th className="text-left font-medium pb-1 pl-3">Partial sum / price</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {reduction.terms.map((term, k) => {
+              const share = price ? (reduction.partialSums[k][commodity] / price) * 100 : 0;
+              return (
+                <tr key={k} className="border-t border-sraffa-700/50">
+                  <td className="py-0.5 text-sraffa-300">{k}</td>
+                  <td className="py-0.5 text-right text-sraffa-300">{reduction.datedLabour[k][commodity].toFixed(5)}</td>
+                  <td className="py-0.5 text-right text-yellow-400">{term[commodity].toFixed(5)}</td>
+                  <td className="py-0.5 pl-3">
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-24 bg-sraffa-900 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${Math.max(0, Math.min(100, share))}%` }}></div>
+                      </div>
+                      <span className="text-sraffa-400">{share.toFixed(1)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-4 text-xs">
+        <div className="p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 flex justify-between">
+          <span className="text-sraffa-400">Price</span>
+          <span className="font-mono text-blue-300">{price !== undefined ? price.toFixed(5) : '-'}</span>
+        </div>
+        <div className="p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 flex justify-between">
+          <span className="text-sraffa-400">Commodity residue</span>
+          <span className="font-mono text-red-300">{residue !== undefined ? residue.toExponential(3) : '-'}</span>
+        </div>
+      </div>
+
+      {/* Each dated term as a function of r, Standard commodity as numeraire */}
+      {termCurves.length > 1 && maxR > 0 && (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto mt-4">
+            <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} stroke="#486376" />
+            <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#486376" />
+            <text x={PAD.left} y={HEIGHT - 8} fill="#91a6b4" fontSize="10">0%</text>
+            <text x={PAD.left + plotW} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="end">R = {(maxR * 100).toFixed(1)}%</text>
+            <text x={PAD.left - 6} y={PAD.top + 8} fill="#91a6b4" fontSize="10" textAnchor="end">{maxValue.toFixed(3)}</text>
+            {Array.from({ length: shown }, (_, k) => (
+              <path
+                key={k}
+                d={termCurves.map((c, idx) => `${idx === 0 ? 'M' : 'L'}${x(c.r).toFixed(1)},${y(c.values[k]).toFixed(1)}`).join(' ')}
+                fill="none"
+                stroke={TERM_COLORS[k % TERM_COLORS.length]}
+                strokeWidth="1.5"
+              />
+            ))}
+            {reduction.r <= maxR && (
+              <line x1={x(reduction.r)} y1={PAD.top} x2={x(reduction.r)} y2={PAD.top + plotH} stroke="#3b82f6" strokeDasharray="4 3" />
+            )}
+          </svg>
+          <div className="flex flex-wrap gap-3 mt-2 text-[10px] text-sraffa-400 justify-center border-t border-sraffa-700 pt-2">
+            {Array.from({ length: shown }, (_, k) => (
+              <div key={k} className="flex items-center gap-1">
+                <div className="w-3 h-0.5" style={{ backgroundColor: TERM_COLORS[k % TERM_COLORS.length] }}></div>
+                k = {k}
+              </div>
+            ))}
+            <span className="opacity-60">(w = 1 - r/R)</span>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ReductionPanel;
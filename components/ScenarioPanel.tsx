@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { Scenario, ScenarioMetadata } from '../types';
+import { encodeScenarioForUrl, parseScenarioJson, serializeScenario, SCENARIO_URL_PARAM } from '../utils/scenario';
+
+interface ScenarioPanelProps {
+  scenario: Scenario;
+  loadErrors: string[];
+  onMetadataChange: (metadata: ScenarioMetadata) => void;
+  onLoad: (scenario: Scenario) => void;
+  onLoadErrors: (errors: string[]) => void;
+}
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({
+  scenario,
+  loadErrors,
+  onMetadataChange,
+  onLoad,
+  onLoadErrors
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [shareStatus, setShareStatus] = useState<string>('');
+  const { metadata } = scenario;
+
+  const handleSave = () => {
+    const blob = new Blob([serializeScenario(scenario)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const slug = metadata.title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slug}.sraffa.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseScenarioJson(await file.text());
+    if (result.scenario) onLoad(result.scenario);
+    onLoadErrors(result.errors);
+  };
+
+  const handleShare = async () => {
+    const hash = `#${SCENARIO_URL_PARAM}=${encodeScenarioForUrl(scenario)}`;
+    window.history.replaceState(null, '', hash);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setShareStatus('Link copied');
+    } catch {
+      setShareStatus('Link is in the address bar');
+    }
+  };
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Scenario</h3>
+        <span className="text-[10px] text-sraffa-500 font-mono">schema v{scenario.version}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <input
+          value={metadata.title}
+          placeholder="Title"
+          onChange={(e) => onMetadataChange({ ...metadata, title: e.target.value })}
+          className="bg-sraffa-900 text-sraffa-200 p-2 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-sm"
+        />
+        <input
+          value={metadata.author}
+          placeholder="Author"
+          onChange={(e) => onMetadataChange({ ...metadata, author: e.target.value })}
+          className="bg-sraffa-900 text-sraffa-200 p-2 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-sm"
+        />
+      </div>
+      <textarea
+        value={metadata.notes}
+        placeholder="Notes"
+        rows={2}
+        onChange={(e) => onMetadataChange({ ...metadata, notes: e.target.value })}
+        className="w-full bg-sraffa-900 text-sraffa-200 p-2 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-sm mb-3"
+      />
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <button onClick={handleSave} className="px-3 py-1.5 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors">
+          Save file
+        </button>
+        <button onClick={() => fileInput.current?.click()} className="px-3 py-1.5 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors">
+          Load file
+        </button>
+        <button onClick={handleShare} className="px-3 py-1.5 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors">
+          Copy share link
+        </button>
+        {shareStatus && <span className="text-[10px] text-green-400">{shareStatus}</span>}
+        <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {loadErrors.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/20 border border-red-900/50 rounded text-red-300 text-xs space-y-1">
+          {loadErrors.map((err, k) => <div key={k}>{err}</div>)}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ScenarioPanel;
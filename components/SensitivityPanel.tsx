@@ -0,0 +1,90 @@
+import React from 'react';
+import { Commodity, PriceSensitivity, SensitivityEntry } from '../types';
+import { rankPriceSensitivities } from '../utils/sensitivity';
+
+interface SensitivityPanelProps {
+  commodities: Commodity[];
+  sensitivity: PriceSensitivity;
+  commodity: number;
+  showHeatmap: boolean;
+  onCommodityChange: (commodity: number) => void;
+  onToggleHeatmap: () => void;
+}
+
+const TOP_ENTRIES = 10;
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({
+  commodities,
+  sensitivity,
+  commodity,
+  showHeatmap,
+  onCommodityChange,
+  onToggleHeatmap
+}) => {
+  const ranked = rankPriceSensitivities(sensitivity, commodity).slice(0, TOP_ENTRIES);
+  const largest = Math.max(1e-12, ...ranked.map(e => Math.abs(e.elasticity)));
+
+  const label = (e: SensitivityEntry) => {
+    if (e.kind === 'profitRate') return 'Rate of profit r';
+    const industry = commodities[e.industry as number]?.name;
+    if (e.kind === 'labor') return `Labour in ${industry}`;
+    return `${commodities[e.input as number]?.name} used in ${industry}`;
+  };
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Price Sensitivity</h3>
+        <button
+          onClick={onToggleHeatmap}
+          className={`text-xs px-2 py-1 rounded border transition-colors ${showHeatmap ? 'bg-blue-900/40 text-blue-300 border-blue-700' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700 hover:text-sraffa-200'}`}
+          title="Shade the input table by the elasticity of the selected price"
+        >
+          {showHeatmap ? 'Heatmap: on' : 'Heatmap: off'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs mb-3">
+        <span className="text-sraffa-400">Elasticity of the price of</span>
+        <select
+          value={commodity}
+          onChange={(e) => onCommodityChange(parseInt(e.target.value, 10))}
+          className="bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 outline-none"
+        >
+          {commodities.map((c, i) => <option key={c.id} value={i}>{c.name}</option>)}
+        </select>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-sraffa-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-1">Coefficient</th>
+            <th className="text-right font-medium pb-1">dp / dx</th>
+            <th className="text-right font-medium pb-1">Elasticity</th>
+            <th className="w-24 pb-1"></th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {ranked.map((e, k) => (
+            <tr key={k} className="border-t border-sraffa-700/50">
+              <td className="py-0.5 font-sans text-sraffa-200">{label(e)}</td>
+              <td className="py-0.5 text-right text-sraffa-400">{e.derivative.toPrecision(4)}</td>
+              <td className={`py-0.5 text-right ${e.elasticity >= 0 ? 'text-sraffa-100' : 'text-red-300'}`}>{e.elasticity.toFixed(4)}</td>
+              <td className="py-0.5 pl-2">
+                <div
+                  className={`h-1.5 rounded ${e.elasticity >= 0 ? 'bg-blue-400' : 'bg-red-400'}`}
+                  style={{ width: `${(Math.abs(e.elasticity) / largest) * 100}%` }}
+                ></div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-sraffa-500 mt-2">
+        Elasticity: the percentage change in the price for a 1% change in the coefficient, at the current r and numeraire.
+      </p>
+    </section>
+  );
+};
+
+export default SensitivityPanel;
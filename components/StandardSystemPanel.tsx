@@ -0,0 +1,117 @@
+import React from 'react';
+import { Commodity, PerronFrobeniusAnalysis, StandardSystem, StandardWageCheck, WageClosure } from '../types';
+
+interface StandardSystemPanelProps {
+  commodities: Commodity[];
+  standard: StandardSystem | null;
+  wageCheck: StandardWageCheck | null;
+  wageClosure: WageClosure;
+  spectral: PerronFrobeniusAnalysis | null;
+}
+
+const StandardSystemPanel: React.FC<StandardSystemPanelProps> = ({
+  commodities,
+  standard,
+  wageCheck,
+  wageClosure,
+  spectral
+}) => {
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Standard System</h3>
+        {standard && (
+          <span className="text-xs bg-sraffa-900 text-sraffa-300 px-2 py-1 rounded border border-sraffa-700">
+            Standard ratio R = {(standard.standardRatio * 100).toFixed(2)}%
+          </span>
+        )}
+      </div>
+
+      {standard ? (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-sraffa-400 uppercase tracking-widest">
+                  <th className="text-left font-medium pb-2">Industry</th>
+                  <th className="text-right font-medium pb-2">Multiplier q</th>
+                  <th className="text-right font-medium pb-2">Gross</th>
+                  <th className="text-right font-medium pb-2">Means of Prod.</th>
+                  <th className="text-right font-medium pb-2">Net Product</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {commodities.map((c, i) => (
+                  <tr key={c.id} className="border-t border-sraffa-700/50">
+                    <td className="py-1 font-sans font-bold text-sraffa-200">{c.name}</td>
+                    <td className="py-1 text-right text-blue-300">{standard.multipliers[i].toFixed(4)}</td>
+                    <td className="py-1 text-right text-sraffa-300">{standard.grossProduct[i].toFixed(2)}</td>
+                    <td className="py-1 text-right text-sraffa-300">{standard.meansOfProduction[i].toFixed(2)}</td>
+                    <td className="py-1 text-right text-green-400">{standard.netProduct[i].toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {wageCheck && (
+            <div className="mt-4 p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 flex justify-between items-center">
+              <div className="text-xs text-sraffa-400">
+                Standard net product as numeraire<br/>
+                <span className="text-[10px] opacity-50">Annual labour of the system taken as unit</span>
+              </div>
+              <div className="text-right font-mono text-sm">
+                <div className="text-yellow-400">w = {wageCheck.wage.toFixed(6)}</div>
+                <div className="text-sraffa-400">
+                  {wageClosure === 'anteFactum' ? '(1 - r/R)/(1+r)' : '1 - r/R'} = {wageCheck.expectedWage.toFixed(6)}
+                </div>
+                <div className={`text-[10px] ${wageCheck.holds ? 'text-green-400' : 'text-red-400'}`}>
+                  {wageCheck.holds ? 'LINEAR RELATION HOLDS' : `DEVIATION ${wageCheck.deviation.toExponential(2)}`}
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="p-4 text-center bg-red-900/20 border border-red-900/50 rounded text-red-300 text-sm">
+          No Standard system: the economy does not produce a surplus.
+        </div>
+      )}
+
+      {/* Spectrum of the coefficient matrix behind R and the Standard proportions */}
+      {spectral && (
+        <div className="mt-4 p-3 bg-sraffa-900/30 rounded border border-sraffa-700/50 text-xs">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-sraffa-400">Perron root</span>
+            <span className="font-mono text-sraffa-100">{spectral.eigenvalue.toFixed(6)}</span>
+            <span className={`px-2 py-0.5 rounded border ${spectral.isIrreducible ? 'bg-green-900/30 text-green-300 border-green-800' : 'bg-yellow-900/30 text-yellow-300 border-yellow-800'}`}>
+              {spectral.isIrreducible ? 'Irreducible' : 'Reducible'}
+            </span>
+            {spectral.isIrreducible && (
+              <span className={`px-2 py-0.5 rounded border ${spectral.isPrimitive ? 'bg-green-900/30 text-green-300 border-green-800' : 'bg-yellow-900/30 text-yellow-300 border-yellow-800'}`}>
+                {spectral.isPrimitive ? 'Primitive' : `Cyclic, period ${spectral.period}`}
+              </span>
+            )}
+            {!spectral.diagnostics.converged && (
+              <span className="px-2 py-0.5 rounded border bg-red-900/30 text-red-300 border-red-800">Not converged</span>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2 font-mono text-sraffa-300 mb-2">
+            <div><span className="font-sans text-sraffa-500">gap </span>{spectral.diagnostics.spectralGap.toFixed(4)}</div>
+            <div><span className="font-sans text-sraffa-500">peripheral </span>{spectral.diagnostics.peripheralCount}</div>
+            <div><span className="font-sans text-sraffa-500">residual </span>{spectral.diagnostics.residual.toExponential(1)}</div>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono text-sraffa-400">
+            {spectral.spectrum.map((v, k) => (
+              <span key={k}>
+                {v.re.toFixed(4)}{Math.abs(v.im) > 1e-12 && ` ${v.im < 0 ? '-' : '+'} ${Math.abs(v.im).toFixed(4)}i`}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default StandardSystemPanel;
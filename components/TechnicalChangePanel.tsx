@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Commodity, InputMatrix, TechnicalChangeAnalysis, TechnicalChangeSpec } from '../types';
+
+interface TechnicalChangePanelProps {
+  commodities: Commodity[];
+  matrix: InputMatrix;
+  spec: TechnicalChangeSpec | null;
+  analysis: TechnicalChangeAnalysis | null;
+  profitRate: number;
+  onChange: (spec: TechnicalChangeSpec | null) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 32, left: 48 };
+
+const BEFORE_COLOR = '#94a3b8';
+const AFTER_COLOR = '#34d399';
+
+const formatRate = (r: number | null) => (r === null ? '—' : `${(r * 100).toFixed(2)}%`);
+
+const TechnicalChangePanel: React.FC<TechnicalChangePanelProps> = ({
+  commodities,
+  matrix,
+  spec,
+  analysis,
+  profitRate,
+  onChange
+}) => {
+  const [industry, setIndustry] = useState<number>(0);
+
+  const handlePropose = () => {
+    const j = Math.min(industry, commodities.length - 1);
+    onChange({
+      industry: j,
+      inputs: matrix.map(row => row[j]),
+      laborInput: commodities[j].laborInput,
+      wageBasket: null
+    });
+  };
+
+  const handleMethodChange = (field: 'laborInput' | number, val: string) => {
+    if (!spec) return;
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    if (field === 'laborInput') {
+      onChange({ ...spec, laborInput: Math.max(0, num) });
+    } else {
+      const inputs = commodities.map((_, i) => spec.inputs[i] ?? 0);
+      inputs[field] = Math.max(0, num);
+      onChange({ ...spec, inputs });
+    }
+  };
+
+  const handleBasketChange = (i: number, val: string) => {
+    if (!spec || !analysis) return;
+    const num = parseFloat(val);
+    if (isNaN(num)) return;
+    const wageBasket = commodities.map((_, k) => analysis.wageBasket[k] ?? 0);
+    wageBasket[i] = Math.max(0, num);
+    onChange({ ...spec, wageBasket });
+  };
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const curves = analysis ? [analysis.frontierBefore, analysis.frontierAfter] : [];
+  const maxR = Math.max(1e-9, ...curves.map(f => f.maxProfitRate));
+  const maxWage = Math.max(1e-9, ...curves.flatMap(f => f.points.map(p => p.wage)));
+  const x = (r: number) => PAD.left + (r / maxR) * plotW;
+  const y = (w: number) => PAD.top + plotH - (Math.max(0, w) / maxWage) * plotH;
+  const path = (points: { r: number; wage: number }[]) =>
+    points.map((p, idx) => `${idx === 0 ? 'M' : 'L'}${x(p.r).toFixed(1)},${y(p.wage).toFixed(1)}`).join(' ');
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Technical Change</h3>
+        {analysis && (
+          <div className="flex gap-2">
+            <span className={`text-xs px-2 py-1 rounded border ${analysis.costReducing ? 'bg-green-900/30 text-green-300 border-green-800' : 'bg-sraffa-900 text-sraffa-400 border-sraffa-700'}`}>
+              {analysis.costReducing ? 'Cost-reducing' : 'Not cost-reducing'}
+            </span>
+            {analysis.okishioHolds !== null && (
+              <span className={`text-xs px-2 py-1 rounded border ${analysis.okishioHolds ? 'bg-blue-900/30 text-blue-300 border-blue-800' : 'bg-red-900/30 text-red-300 border-red-800'}`}>
+                Okishio {analysis.okishioHolds ? 'holds' : 'fails'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!spec && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-sraffa-400">New method for</span>
+          <select
+            value={Math.min(industry, commodities.length - 1)}
+            onChange={(e) => setIndustry(parseInt(e.target.value, 10))}
+            className="bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 outline-none"
+          >
+            {commodities.map((c, j) => <option key={c.id} value={j}>{c.name}</option>)}
+          </select>
+          <button
+            onClick={handlePropose}
+            className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors"
+          >
+            Propose
+          </button>
+        </div>
+      )}
+
+      {spec && (
+        <>
+          {/* The new method, for the industry's whole output */}
+          <div className="flex flex-wrap items-center gap-1 text-xs mb-2">
+            <span className="w-28 shrink-0 text-sraffa-300 font-bold">{commodities[spec.industry]?.name} (new)</span>
+            {commodities.map((c, i) => (
+              <label key={c.id} className="flex items-center gap-1 text-sraffa-400" title={`${c.name} used (was ${matrix[i]?.[spec.industry] ?? 0})`}>
+                {c.name.slice(0, 3)}
+                <input
+                  type="number" step="0.1" min="0" value={spec.inputs[i] ?? 0}
+                  onChange={(e) => handleMethodChange(i, e.target.value)}
+                  className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-1 text-yellow-400" title={`Labour (was ${commodities[spec.industry]?.laborInput})`}>
+              L
+              <input
+                type="number" step="0.1" min="0" value={spec.laborInput}
+                onChange={(e) => handleMethodChange('laborInput', e.target.value)}
+                className="w-16 bg-sraffa-900 text-yellow-300 p-1 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right"
+              />
+            </label>
+            <button onClick={() => onChange(null)} className="ml-1 text-[10px] text-red-400 hover:text-red-300">remove</button>
+          </div>
+
+          {/* Real wage per unit of labour */}
+          {analysis && (
+            <div className="flex flex-wrap items-center gap-1 text-xs mb-4">
+              <span className="w-28 shrink-0 text-sraffa-400">Real wage / worker</span>
+              {commodities.map((c, i) => (
+                <label key={c.id} className="flex items-center gap-1 text-sraffa-400">
+                  {c.name.slice(0, 3)}
+                  <input
+                    type="number" step="0.01" min="0" value={Number((analysis.wageBasket[i] ?? 0).toPrecision(4))}
+                    onChange={(e) => handleBasketChange(i, e.target.value)}
+                    className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                  />
+                </label>
+              ))}
+              {spec.wageBasket ? (
+                <button onClick={() => onChange({ ...spec, wageBasket: null })} className="ml-1 text-[10px] text-sraffa-400 hover:text-sraffa-200">
+                  reset to current wage
+                </button>
+              ) : (
+                <span className="ml-1 text-[10px] text-sraffa-500">what the current wage buys of the net product</span>
+              )}
+            </div>
+          )}
+
+          {analysis && (
+            <>
+              <div className="text-xs text-sraffa-300 mb-3">
+                Cost of the output of {commodities[spec.industry]?.name} at current prices and r = {(profitRate * 100).toFixed(1)}%:{' '}
+                <span className="font-mono">{analysis.costOld.toFixed(3)}</span> with the old method,{' '}
+                <span className={`font-mono ${analysis.costReducing ? 'text-green-300' : 'text-red-300'}`}>{analysis.costNew.toFixed(3)}</span> with the new.
+              </div>
+
+              <table className="w-full text-xs mb-4">
+                <thead>
+                  <tr className="text-sraffa-400 uppercase tracking-widest">
+                    <th className="text-left font-medium pb-1"></th>
+                    <th className="text-right font-medium pb-1">Before</th>
+                    <th className="text-right font-medium pb-1">After</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  <tr className="border-t border-sraffa-700/50">
+                    <td className="py-0.5 font-sans text-sraffa-200">r at the real wage</td>
+                    <td className="py-0.5 text-right">{formatRate(analysis.profitRateBefore)}</td>
+                    <td className="py-0.5 text-right text-sraffa-100">{formatRate(analysis.profitRateAfter)}</td>
+                  </tr>
+                  <tr className="border-t border-sraffa-700/50">
+                    <td className="py-0.5 font-sans text-sraffa-200">Maximum rate R</td>
+                    <td className="py-0.5 text-right">{formatRate(analysis.maxProfitRateBefore)}</td>
+                    <td className="py-0.5 text-right text-sraffa-100">{formatRate(analysis.maxProfitRateAfter)}</td>
+                  </tr>
+                  <tr className="border-t border-sraffa-700/50">
+                    <td className="py-0.5 font-sans text-sraffa-200">Capital / worker</td>
+                    <td className="py-0.5 text-right">{analysis.capitalPerWorkerBefore?.toFixed(3) ?? '—'}</td>
+                    <td className="py-0.5 text-right text-sraffa-100">{analysis.capitalPerWorkerAfter?.toFixed(3) ?? '—'}</td>
+                  </tr>
+                  {commodities.map((c, i) => (
+                    <tr key={c.id} className="border-t border-sraffa-700/50">
+                      <td className="py-0.5 font-sans text-sraffa-200">Price of {c.name}</td>
+                      <td className="py-0.5 text-right">{analysis.pricesBefore[i]?.toFixed(4) ?? '—'}</td>
+                      <td className="py-0.5 text-right text-sraffa-100">{analysis.pricesAfter[i]?.toFixed(4) ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} stroke="#486376" />
+                <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#486376" />
+                <text x={PAD.left} y={HEIGHT - 8} fill="#91a6b4" fontSize="10">0%</text>
+                <text x={PAD.left + plotW} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="end">{(maxR * 100).toFixed(1)}%</text>
+                <text x={PAD.left - 6} y={PAD.top + 8} fill="#facc15" fontSize="10" textAnchor="end">{maxWage.toFixed(2)}</text>
+                <path d={path(analysis.frontierBefore.points)} fill="none" stroke={BEFORE_COLOR} strokeWidth="1.5" strokeDasharray="5 3" />
+                <path d={path(analysis.frontierAfter.points)} fill="none" stroke={AFTER_COLOR} strokeWidth="2" />
+                {analysis.profitRateBefore !== null && (
+                  <line x1={x(analysis.profitRateBefore)} y1={PAD.top} x2={x(analysis.profitRateBefore)} y2={PAD.top + plotH} stroke={BEFORE_COLOR} strokeDasharray="2 3" />
+                )}
+                {analysis.profitRateAfter !== null && (
+                  <line x1={x(analysis.profitRateAfter)} y1={PAD.top} x2={x(analysis.profitRateAfter)} y2={PAD.top + plotH} stroke={AFTER_COLOR} strokeDasharray="2 3" />
+                )}
+              </svg>
+              <div className="flex gap-4 mt-2 text-[10px] text-sraffa-400 justify-center border-t border-sraffa-700 pt-2">
+                <div className="flex items-center gap-1"><div className="w-3 h-0.5" style={{ backgroundColor: BEFORE_COLOR }}></div>Old method</div>
+                <div className="flex items-center gap-1"><div className="w-3 h-0.5" style={{ backgroundColor: AFTER_COLOR }}></div>New method</div>
+                <div>Wage in terms of {commodities[analysis.frontierAfter.numeraire]?.name}</div>
+              </div>
+
+              {analysis.okishioHolds !== null && (
+                <div className="mt-3 text-xs text-sraffa-300">
+                  {analysis.okishioHolds
+                    ? analysis.isBasic === false
+                      ? 'The method is cost-reducing in a non-basic industry: at the same real wage the rate of profit is unchanged.'
+                      : 'The method is cost-reducing and, at the same real wage, the uniform rate of profit does not fall (Okishio).'
+                    : 'The method is cost-reducing, yet the rate of profit falls at the same real wage.'}
+                </div>
+              )}
+              {analysis.profitRateAfter === null && (
+                <div className="mt-3 text-xs text-red-300">With the new method the real wage absorbs the whole net product: no rate of profit is possible.</div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TechnicalChangePanel;
@@ -0,0 +1,210 @@
+import React from 'react';
+import { AlternativeMethod, ChoiceOfTechniqueAnalysis, Commodity, InputMatrix } from '../types';
+
+interface TechniquePanelProps {
+  commodities: Commodity[];
+  matrix: InputMatrix;
+  alternatives: AlternativeMethod[];
+  analysis: ChoiceOfTechniqueAnalysis | null;
+  profitRate: number;
+  onChange: (alternatives: AlternativeMethod[]) => void;
+}
+
+const TECHNIQUE_COLORS = ['#94a3b8', '#60a5fa', '#f472b6', '#34d399', '#c084fc', '#fb923c', '#22d3ee', '#a3e635'];
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 16, bottom: 32, left: 48 };
+
+const TechniquePanel: React.FC<TechniquePanelProps> = ({
+  commodities,
+  matrix,
+  alternatives,
+  analysis,
+  profitRate,
+  onChange
+}) => {
+
+  const handleAdd = (industry: number) => {
+    const newId = Math.max(0, ...alternatives.map(a => a.id)) + 1;
+    onChange([...alternatives, {
+      id: newId,
+      industry,
+      name: `${commodities[industry].name} ${String.fromCharCode(945 + alternatives.filter(a => a.industry === industry).length + 1)}`,
+      inputs: matrix.map(row => row[industry]),
+      laborInput: commodities[industry].laborInput
+    }]);
+  };
+
+  const handleUpdate = (id: number, field: 'name' | 'laborInput' | number, val: string) => {
+    onChange(alternatives.map(a => {
+      if (a.id !== id) return a;
+      if (field === 'name') return { ...a, name: val };
+      const num = parseFloat(val);
+      if (isNaN(num)) return a;
+      if (field === 'laborInput') return { ...a, laborInput: Math.max(0, num) };
+      const inputs = [...a.inputs];
+      inputs[field] = Math.max(0, num);
+      return { ...a, inputs };
+    }));
+  };
+
+  const handleRemove = (id: number) => onChange(alternatives.filter(a => a.id !== id));
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const maxR = analysis?.curves[analysis.curves.length - 1]?.r ?? 0;
+  const maxWage = analysis ? Math.max(1e-9, ...analysis.envelope.map(e => e.wage)) : 1;
+  const x = (r: number) => PAD.left + (maxR > 0 ? (r / maxR) * plotW : 0);
+  const y = (w: number) => PAD.top + plotH - (Math.max(0, w) / maxWage) * plotH;
+
+  // Envelope point nearest to the current rate of profit
+  const current = analysis && analysis.envelope.length > 0
+    ? analysis.envelope.reduce((best, e) => (Math.abs(e.r - profitRate) < Math.abs(best.r - profitRate) ? e : best))
+    : null;
+
+  return (
+    <section className="bg-sraffa-800 p-6 rounded-xl border border-sraffa-600">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-light text-sraffa-100 font-serif italic">Choice of Technique</h3>
+        <div className="flex gap-2">
+          {analysis && analysis.reswitching.length > 0 && (
+            <span className="text-xs px-2 py-1 rounded border bg-red-900/30 text-red-300 border-red-800">Reswitching</span>
+          )}
+          {analysis && analysis.capitalReversing && (
+            <span className="text-xs px-2 py-1 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-800">Capital reversing</span>
+          )}
+        </div>
+      </div>
+
+      {/* Alternative methods */}
+      <div className="space-y-2 mb-4 overflow-x-auto">
+        {alternatives.map(a => (
+          <div key={a.id} className="flex items-center gap-1 text-xs">
+            <input
+              value={a.name}
+              onChange={(e) => handleUpdate(a.id, 'name', e.target.value)}
+              className="w-24 shrink-0 bg-transparent text-sraffa-200 border-b border-sraffa-600 focus:border-blue-400 outline-none font-bold"
+            />
+            <span className="w-20 shrink-0 text-sraffa-500 truncate">for {commodities[a.industry]?.name}</span>
+            {commodities.map((c, i) => (
+              <label key={c.id} className="flex items-center gap-1 text-sraffa-400" title={`${c.name} used`}>
+                {c.name.slice(0, 3)}
+                <input
+                  type="number" step="0.1" min="0" value={a.inputs[i] ?? 0}
+                  onChange={(e) => handleUpdate(a.id, i, e.target.value)}
+                  className="w-16 bg-sraffa-900 text-white p-1 rounded border border-sraffa-700 focus:border-blue-500 outline-none text-right"
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-1 text-yellow-400">
+              L
+              <input
+                type="number" step="0.1" min="0" value={a.laborInput}
+                onChange={(e) => handleUpdate(a.id, 'laborInput', e.target.value)}
+                className="w-16 bg-sraffa-900 text-yellow-300 p-1 rounded border border-sraffa-700 focus:border-yellow-500 outline-none text-right"
+              />
+            </label>
+            <button onClick={() => handleRemove(a.id)} className="ml-1 text-[10px] text-red-400 hover:text-red-300">remove</button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          {commodities.map((c, j) => (
+            <button
+              key={c.id}
+              onClick={() => handleAdd(j)}
+              className="px-2 py-1 bg-sraffa-700 hover:bg-sraffa-600 text-white rounded text-xs transition-colors"
+            >
+              + Method for {c.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {analysis?.truncated && (
+        <div className="text-[10px] text-yellow-400 mb-2">
+          Only the first {analysis.techniques.length} of {analysis.totalTechniques} techniques are compared; the envelope may
+          miss a cheaper one. Remove alternatives to compare them all.
+        </div>
+      )}
+
+      {analysis && analysis.techniques.length > 1 && analysis.envelope.length > 1 && (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <line x1={PAD.left} y1={PAD.top + plotH} x2={PAD.left + plotW} y2={PAD.top + plotH} stroke="#486376" />
+            <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#486376" />
+            <text x={PAD.left} y={HEIGHT - 8} fill="#91a6b4" fontSize="10">0%</text>
+            <text x={PAD.left + plotW} y={HEIGHT - 8} fill="#91a6b4" fontSize="10" textAnchor="end">{(maxR * 100).toFixed(1)}%</text>
+            <text x={PAD.left - 6} y={PAD.top + 8} fill="#facc15" fontSize="10" textAnchor="end">{maxWage.toFixed(2)}</text>
+
+            {/* Wage curve of every technique */}
+            {analysis.techniques.map((t, k) => {
+              const pts = analysis.curves.filter(c => c.wages[k] !== null);
+              if (pts.length < 2) return null;
+              const d = pts.map((c, idx) => `${idx === 0 ? 'M' : 'L'}${x(c.r).toFixed(1)},${y(c.wages[k] as number).toFixed(1)}`).join(' ');
+              return <path key={k} d={d} fill="none" stroke={TECHNIQUE_COLORS[k % TECHNIQUE_COLORS.length]} strokeWidth="1" strokeOpacity="0.6" />;
+            })}
+
+            {/* Outer envelope */}
+            <path
+              d={analysis.envelope.map((e, idx) => `${idx === 0 ? 'M' : 'L'}${x(e.r).toFixed(1)},${y(e.wage).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke="#facc15"
+              strokeWidth="2.5"
+            />
+
+            {analysis.switchPoints.map((sp, k) => (
+              <circle key={k} cx={x(sp.r)} cy={y(sp.wage)} r="4" fill={sp.capitalReversing ? '#f87171' : '#ffffff'} />
+            ))}
+
+            {profitRate <= maxR && (
+              <line x1={x(profitRate)} y1={PAD.top} x2={x(profitRate)} y2={PAD.top + plotH} stroke="#3b82f6" strokeDasharray="4 3" />
+            )}
+          </svg>
+
+          <div className="flex flex-wrap gap-3 mt-2 text-[10px] text-sraffa-400 justify-center border-t border-sraffa-700 pt-2">
+            {analysis.techniques.map((t, k) => (
+              <div key={k} className="flex items-center gap-1">
+                <div className="w-3 h-0.5" style={{ backgroundColor: TECHNIQUE_COLORS[k % TECHNIQUE_COLORS.length] }}></div>
+                {t.label}
+              </div>
+            ))}
+          </div>
+
+          {current && (
+            <div className="mt-3 text-xs text-sraffa-300">
+              Cost-minimising technique at r = {(profitRate * 100).toFixed(1)}%:{' '}
+              <span className="font-bold text-sraffa-100">{analysis.techniques[current.technique].label}</span>
+            </div>
+          )}
+
+          {analysis.switchPoints.length > 0 && (
+            <table className="w-full text-xs mt-3">
+              <thead>
+                <tr className="text-sraffa-400 uppercase tracking-widest">
+                  <th className="text-left font-medium pb-1">Switch at r</th>
+                  <th className="text-left font-medium pb-1">From → To</th>
+                  <th className="text-right font-medium pb-1">Capital / worker</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {analysis.switchPoints.map((sp, k) => (
+                  <tr key={k} className={`border-t border-sraffa-700/50 ${sp.capitalReversing ? 'text-red-300' : 'text-sraffa-200'}`}>
+                    <td className="py-1">{(sp.r * 100).toFixed(2)}%</td>
+                    <td className="py-1 font-sans">{analysis.techniques[sp.from].label} → {analysis.techniques[sp.to].label}</td>
+                    <td className="py-1 text-right">
+                      {sp.capitalPerWorkerFrom.toFixed(3)} → {sp.capitalPerWorkerTo.toFixed(3)}
+                      {sp.capitalReversing && ' (reversing)'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TechniquePanel;
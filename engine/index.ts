@@ -0,0 +1,63 @@
+// Public API of the Sraffa engine: the solvers behind the browser UI, with no React
+// dependency, for scripts and batch runs. Anything not exported here is internal.
+
+export type {
+  Commodity,
+  InputMatrix,
+  OutputMatrix,
+  SystemState,
+  Scenario,
+  ScenarioMetadata,
+  ScenarioParseResult,
+  NumeraireSpec,
+  WageClosure,
+  ProductionOptions,
+  StandardSystem,
+  StandardWageCheck,
+  WageProfitFrontier,
+  FrontierPoint,
+  ReducibilityAnalysis,
+  PerronFrobeniusAnalysis,
+  LabourValueAnalysis,
+  SystemDiagnostics,
+  DiagnosticIssue,
+  SystemStatus,
+  QuantitySystem,
+  CambridgeClosure,
+  FinalDemandAnalysis,
+  LabourType,
+  ProfitHierarchyAnalysis,
+  GravitationRule,
+  GravitationSpec,
+  GravitationPoint,
+  GravitationOutcome,
+  GravitationResult,
+  SolveOptions,
+  EngineResult,
+  EngineAggregates
+} from '../types';
+
+export { solveState, sweepProfitRate, calculateAggregates } from './solve';
+
+export {
+  calculateSraffianPrices,
+  calculateJointProductionPrices,
+  calculateMaxProfitRate,
+  buildCoefficientMatrix,
+  wageCharge,
+  industryProfitRates
+} from '../utils/math';
+export { calculateStandardSystem, checkStandardWageRelation } from '../utils/standard';
+export { calculateWageProfitFrontier } from '../utils/frontier';
+export { analyzeReducibility } from '../utils/reducibility';
+export { analyzePerronFrobenius } from '../utils/spectral';
+export { calculateNetProduct, getNumeraireBasket, resolveWage } from '../utils/numeraire';
+export { calculateLabourValues, analyzeLabourValues } from '../utils/values';
+export { calculateQuantitySystem, cambridgeProfitRate } from '../utils/quantity';
+export { calculateLeontiefInverse, analyzeFinalDemand, rescaleSystem } from '../utils/leontief';
+export { reduceLabour, applyLabourTypes, calculateWageBillByType } from '../utils/labour';
+export { calculateDistribution, analyzeProfitHierarchy } from '../utils/profitRates';
+export { simulateGravitation, GRAVITATION_TOLERANCE } from '../utils/gravitation';
+export { diagnoseSystem } from '../utils/diagnostics';
+export { analyzeExactSystem } from '../utils/exact';
+export { parseScenario, parseScenarioJson, createScenario, serializeScenario, SCENARIO_VERSION } from '../utils/scenario';
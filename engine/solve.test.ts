@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAggregates, solveState, sweepProfitRate } from './solve';
+import { SystemState } from '../types';
+import { WHEAT_IRON } from '../test/fixtures';
+
+// Sraffa's iron, coal and wheat system (PCMC §25): R = 20%
+const IRON_COAL_WHEAT: SystemState = {
+  commodities: [
+    { id: 1, name: 'Iron', totalOutput: 180, laborInput: 3 / 16 },
+    { id: 2, name: 'Coal', totalOutput: 450, laborInput: 5 / 16 },
+    { id: 3, name: 'Wheat', totalOutput: 480, laborInput: 8 / 16 }
+  ],
+  matrix: [
+    [90, 50, 40],
+    [120, 125, 40],
+    [60, 150, 200]
+  ],
+  profitRate: 0.1,
+  numeraire: { kind: 'standard' }
+};
+
+describe('solveState', () => {
+  it('solves the wheat and iron system at r = 15%', () => {
+    const result = solveState(WHEAT_IRON);
+    expect(result.maxProfitRate).toBeCloseTo(0.25, 10);
+    expect(result.wage).toBe(1);
+    expect(result.prices[0]).toBeCloseTo(10 / 23, 10);
+    expect(result.prices[1]).toBeCloseTo(20 / 3, 10);
+    expect(result.diagnostics.status).toBe('ok');
+  });
+
+  it('gives w = 1 - r/R with the Standard commodity as numeraire', () => {
+    const result = solveState(IRON_COAL_WHEAT);
+    expect(result.maxProfitRate).toBeCloseTo(0.2, 10);
+    expect(result.wage).toBeCloseTo(1 - 0.1 / 0.2, 10);
+  });
+
+  it('takes the rate of profit and wage from the options', () => {
+    const result = solveState(WHEAT_IRON, { profitRate: 0, wage: 2 });
+    expect(result.profitRate).toBe(0);
+    expect(result.wage).toBe(2);
+    // At r = 0 prices are the labour embodied times the wage
+    const [wheat, iron] = result.prices;
+    expect(wheat * 575).toBeCloseTo(wheat * 280 + iron * 12 + 2 * 18, 8);
+    expect(iron * 20).toBeCloseTo(wheat * 120 + iron * 8 + 2 * 12, 8);
+  });
+
+  it('reports no wage and no prices at r = R, where the system is singular', () => {
+    const result = solveState(IRON_COAL_WHEAT, { profitRate: 0.2 });
+    expect(result.wage).toBeNull();
+    expect(result.prices).toEqual([]);
+    expect(result.aggregates).toBeNull();
+  });
+});
+
+describe('sweepProfitRate', () => {
+  it('traces the straight-line wage frontier in the Standard numeraire', () => {
+    const results = sweepProfitRate(IRON_COAL_WHEAT, 0, 0.15, 0.05);
+    expect(results.map(res => res.profitRate)).toEqual([0, 0.05, 0.1, 0.15].map(r => expect.closeTo(r, 12)));
+    results.forEach(res => expect(res.wage).toBeCloseTo(1 - res.profitRate / 0.2, 10));
+  });
+
+  it('returns nothing for an empty or backward range', () => {
+    expect(sweepProfitRate(WHEAT_IRON, 0.1, 0, 0.05)).toEqual([]);
+    expect(sweepProfitRate(WHEAT_IRON, 0, 0.1, 0)).toEqual([]);
+  });
+});
+
+describe('calculateAggregates', () => {
+  it('splits the net product of the wheat and iron system into wages and profits', () => {
+    const aggregates = calculateAggregates(WHEAT_IRON, [10 / 23, 20 / 3], 1, 0.15);
+    const capital = (10 / 23) * 400 + (20 / 3) * 20;
+    expect(aggregates.totalWages).toBeCloseTo(30, 10);
+    expect(aggregates.totalCapital).toBeCloseTo(capital, 10);
+    expect(aggregates.totalProfits).toBeCloseTo(0.15 * capital, 10);
+    // Wages and profits exhaust the value of the net product, 175 wheat
+    expect(aggregates.netProduct).toBeCloseTo((10 / 23) * 175, 10);
+    expect(aggregates.wageShare + aggregates.profitShare).toBeCloseTo(100, 10);
+    expect(aggregates.wagesByType).toBeNull();
+  });
+
+  it('earns profit on advanced wages ante factum', () => {
+    const state: SystemState = { ...WHEAT_IRON, wageClosure: 'anteFactum' };
+    const aggregates = calculateAggregates(state, [1, 10], 1, 0.1);
+    expect(aggregates.totalProfits).toBeCloseTo(0.1 * (400 + 200 + 30), 10);
+  });
+});
@@ -0,0 +1,88 @@
+import { EngineAggregates, EngineResult, NumeraireSpec, SolveOptions, SystemState } from '../types';
+import { calculateMaxProfitRate, calculateSraffianPrices, industryProfitRates } from '../utils/math';
+import { analyzeReducibility } from '../utils/reducibility';
+import { calculateStandardSystem } from '../utils/standard';
+import { getNumeraireBasket, resolveWage } from '../utils/numeraire';
+import { diagnoseSystem } from '../utils/diagnostics';
+import { calculateWageBillByType } from '../utils/labour';
+import { calculateDistribution } from '../utils/profitRates';
+
+/**
+ * National accounts at the given prices: the wage bill, profits on the means of production
+ * (and on wages when they are advanced) at each industry's rate and the shares of each in the
+ * net product. With labour types, the wage bill is also split by type.
+ */
+export const calculateAggregates = (state: SystemState, prices: number[], wage: number, r: number): EngineAggregates => {
+  const options = { wageClosure: state.wageClosure, profitFactors: state.profitFactors };
+  const rates = industryProfitRates(r, state.commodities.length, options);
+  const { totalWages, totalProfits, totalCapital } = calculateDistribution(
+    state.matrix, state.commodities.map(c => c.laborInput), prices, wage, rates, options
+  );
+  const netProduct = totalWages + totalProfits;
+  const denom = netProduct === 0 ? 1 : netProduct;
+  return {
+    totalWages,
+    totalProfits,
+    totalCapital,
+    netProduct,
+    wageShare: (totalWages / denom) * 100,
+    profitShare: (totalProfits / denom) * 100,
+    wagesByType: state.labourTypes ? calculateWageBillByType(state.commodities, state.labourTypes, wage) : null
+  };
+};
+
+/**
+ * Solves a system state the way the main view does for circulating capital: R of the basic
+ * sub-system, prices at r in the state's numeraire, aggregates and the viability diagnostics.
+ * Land and fixed capital are left out.
+ */
+export const solveState = (state: SystemState, options: SolveOptions = {}): EngineResult => {
+  const { commodities, matrix } = state;
+  const outputMatrix = state.outputMatrix ?? null;
+  const productionOptions = { outputMatrix, wageClosure: state.wageClosure, profitFactors: state.profitFactors };
+  const r = options.profitRate ?? state.profitRate;
+  const numeraire: NumeraireSpec = options.wage !== undefined
+    ? { kind: 'wage', wage: options.wage }
+    : state.numeraire ?? { kind: 'wage', wage: 1.0 };
+  const laborVector = commodities.map(c => c.laborInput);
+  const totalOutputs = commodities.map(c => c.totalOutput);
+
+  const basicIndices = outputMatrix ? undefined : analyzeReducibility(matrix).basicIndices;
+  const maxProfitRate = calculateMaxProfitRate(matrix, totalOutputs, basicIndices, productionOptions);
+
+  // Prices are proportional to the wage, so solve at w = 1 and scale to the numeraire
+  const unitWagePrices = calculateSraffianPrices(matrix, laborVector, totalOutputs, r, 1.0, productionOptions).prices;
+  const standard = numeraire.kind === 'standard'
+    ? calculateStandardSystem(matrix, laborVector, totalOutputs, basicIndices, productionOptions)
+    : null;
+  const basket = getNumeraireBasket(numeraire, commodities, matrix, outputMatrix, standard);
+  // A singular system has no prices, and a numeraire worth nothing fixes no wage
+  const resolved = resolveWage(numeraire, unitWagePrices, basket);
+  const wage = unitWagePrices.length > 0 ? resolved : null;
+  const prices = wage === null ? [] : unitWagePrices.map(p => p * wage);
+
+  return {
+    profitRate: r,
+    wage,
+    prices,
+    maxProfitRate,
+    aggregates: wage !== null && prices.length ? calculateAggregates(state, prices, wage, r) : null,
+    // Without a wage the unit-wage prices still show whether and how the system is solved
+    diagnostics: diagnoseSystem(commodities, matrix, prices.length ? prices : unitWagePrices, r, maxProfitRate, productionOptions)
+  };
+};
+
+/**
+ * Solves the state at every r from `from` to `to` in steps of `step`.
+ */
+export const sweepProfitRate = (
+  state: SystemState,
+  from: number,
+  to: number,
+  step: number,
+  options: SolveOptions = {}
+): EngineResult[] => {
+  if (!(step > 0) || to < from) return [];
+  const count = Math.floor((to - from) / step + 1e-9);
+  return Array.from({ length: count + 1 }, (_, k) => solveState(state, { ...options, profitRate: from + k * step }));
+};
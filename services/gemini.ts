@@ -1,5 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
-import { Commodity, InputMatrix } from "../types";
+import { Commodity, InputMatrix, OutputMatrix, ReducibilityAnalysis, SystemDiagnostics } from "../types";
 
 let ai: GoogleGenAI | null = null;
 
@@ -16,18 +16,34 @@ export const analyzeEconomy = async (
   matrix: InputMatrix,
   r: number,
   prices: number[],
-  isValid: boolean
+  numeraire: string, // describeNumeraire label, e.g. "Standard net product = 1"
+  diagnostics: SystemDiagnostics,
+  reducibility: ReducibilityAnalysis | null,
+  outputMatrix: OutputMatrix | null = null
 ): Promise<string> => {
   if (!ai) return "Gemini API Key not configured.";
 
   const systemDesc = commodities.map((c, idx) => {
     const inputs = matrix.map((row, i) => `${row[idx]} units of ${commodities[i].name}`).join(", ");
+    if (outputMatrix) {
+      const outputs = outputMatrix.map((row, i) => `${row[idx]} units of ${commodities[i].name}`).join(", ");
+      return `Process ${idx + 1}: Jointly produces [${outputs}], uses inputs [${inputs}] and ${c.laborInput} labor.`;
+    }
     return `Industry ${c.name}: Produces ${c.totalOutput}, uses inputs [${inputs}] and ${c.laborInput} labor.`;
   }).join("\n");
 
-  const priceDesc = isValid 
-    ? `Calculated Prices (in terms of wage unit): ${commodities.map((c, i) => `${c.name}: ${prices[i]?.toFixed(2)}`).join(", ")}`
-    : "The system is currently invalid (prices did not converge or were negative), possibly because the profit rate 'r' is too high.";
+  const priceDesc = diagnostics.pricesPositive 
+    ? `Calculated Prices (numeraire: ${numeraire}): ${commodities.map((c, i) => `${c.name}: ${prices[i]?.toFixed(2)}`).join(", ")}`
+    : `The system is currently invalid (${diagnostics.headline.toLowerCase()}): ${diagnostics.issues.filter(d => d.severity === 'error').map(d => d.message).join(" ")}`;
+
+  let structureDesc = "This is a system of joint production (Part II): negative prices need not indicate an error.";
+  if (reducibility) {
+    const basics = commodities.filter((_, i) => reducibility.isBasic[i]).map(c => c.name);
+    const nonBasics = commodities.filter((_, i) => !reducibility.isBasic[i]).map(c => c.name);
+    structureDesc = `The system is ${reducibility.isReducible ? 'reducible' : 'irreducible'}. ` +
+      `Basic commodities: ${basics.length ? basics.join(", ") : "none"}. ` +
+      `Non-basic commodities: ${nonBasics.length ? nonBasics.join(", ") : "none"}.`;
+  }
 
   const prompt = `
     Act as Piero Sraffa, the economist. 
@@ -39,10 +55,12 @@ export const analyzeEconomy = async (
     
     ${priceDesc}
     
+    ${structureDesc}
+    
     Please provide a concise, insightful economic analysis (max 150 words). 
     Discuss:
     1. Is the system productive (surplus producing)?
-    2. Identify if there are basic vs non-basic commodities if obvious.
+    2. Comment on the role of the basic and non-basic commodities (or of joint production) given above.
     3. Comment on the relationship between the chosen profit rate and the prices.
     4. Use Sraffian terminology.
   `;
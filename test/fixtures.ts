@@ -0,0 +1,15 @@
+import { SystemState } from '../types';
+
+// Sraffa's wheat and iron system (PCMC §5) with labour added: R = 25%
+export const WHEAT_IRON: SystemState = {
+  commodities: [
+    { id: 1, name: 'Wheat', totalOutput: 575, laborInput: 18 },
+    { id: 2, name: 'Iron', totalOutput: 20, laborInput: 12 }
+  ],
+  matrix: [
+    [280, 120],
+    [12, 8]
+  ],
+  profitRate: 0.15,
+  numeraire: { kind: 'wage', wage: 1.0 }
+};
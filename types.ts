@@ -2,7 +2,8 @@ export interface Commodity {
   id: number;
   name: string;
   totalOutput: number; // X_j
-  laborInput: number;  // L_j
+  laborInput: number;  // L_j; with labour types, the hours of each type weighted by its relative wage
+  laborByType?: number[]; // Hours of each labour type, when labour is not uniform
 }
 
 // The Input-Output Matrix
@@ -10,10 +11,52 @@ export interface Commodity {
 // value at [i][j] is the amount of commodity i used to produce commodity j
 export type InputMatrix = number[][];
 
+// The Output Matrix for joint production (Sraffa, Part II)
+// rows = commodities, columns = processes
+// value at [i][j] is the amount of commodity i produced by process j
+export type OutputMatrix = number[][];
+
 export interface SystemState {
   commodities: Commodity[];
   matrix: InputMatrix; // Physical quantities matrix
+  outputMatrix?: OutputMatrix | null; // Joint production; absent for single-product industries
+  alternativeMethods?: AlternativeMethod[]; // Choice of technique
   profitRate: number; // r (0 to 1)
+  numeraire?: NumeraireSpec; // Carries the wage when the wage is the numeraire
+  wageClosure?: WageClosure;
+  fixedCapital?: FixedCapitalSpec | null;
+  landSpec?: LandSpec | null;
+  technicalChange?: TechnicalChangeSpec | null;
+  labourTypes?: LabourType[] | null; // Absent for uniform labour
+  profitFactors?: number[] | null;   // Hierarchy of profit rates relative to profitRate; absent for a uniform rate
+}
+
+export interface ScenarioMetadata {
+  title: string;
+  author: string;
+  notes: string;
+}
+
+// A saved model: the full system state plus descriptive metadata, tagged with a schema version
+export interface Scenario {
+  version: number;
+  metadata: ScenarioMetadata;
+  state: SystemState;
+}
+
+export interface ScenarioParseResult {
+  scenario: Scenario | null;
+  errors: string[];
+}
+
+// Post factum: p = (1+r)pA + wl (Sraffa). Ante factum: p = (1+r)(pA + wl), wages advanced
+export type WageClosure = 'postFactum' | 'anteFactum';
+
+// Options shared by the price and R solvers
+export interface ProductionOptions {
+  outputMatrix?: OutputMatrix | null; // When given, replaces diag(totalOutput)
+  wageClosure?: WageClosure;          // Defaults to post factum
+  profitFactors?: number[] | null;    // Industry j earns r_j = profitFactors[j] * r; absent for a uniform rate
 }
 
 export interface PriceVector {
@@ -23,11 +66,488 @@ export interface PriceVector {
 export interface ComputedMetrics {
   prices: number[]; // Relative prices
   wage: number;     // Derived wage rate (assuming numeraire)
-  isValid: boolean;
+  diagnostics: SystemDiagnostics;
   maxProfitRate: number | null;
+  labourValues: number[]; // Vertically integrated labour coefficients, l(I - A)^-1
 }
 
 export interface GeminiAnalysis {
   text: string;
   loading: boolean;
-}
\ No newline at end of file
+}
+// Sraffa's Standard system (Chapters IV-V): the actual industries rescaled by
+// multipliers q_j so that inputs and outputs are made of the same composite commodity.
+export interface StandardSystem {
+  multipliers: number[];       // q_j applied to industry j
+  standardRatio: number;       // R = net product / means of production
+  grossProduct: number[];      // Physical quantities, by commodity
+  meansOfProduction: number[]; // Physical quantities, by commodity
+  netProduct: number[];        // The Standard net product (the Standard commodity)
+  totalLabor: number;          // Equal to the labour of the actual system
+}
+
+export interface StandardWageCheck {
+  r: number;
+  wage: number;         // Wage per unit of total labour, Standard net product = 1
+  expectedWage: number; // 1 - r/R, divided by 1 + r when wages are advanced
+  deviation: number;
+  holds: boolean;
+}
+
+// A point on the wage-profit frontier, with wage and prices measured in the numeraire
+export interface FrontierPoint {
+  r: number;
+  wage: number;
+  prices: number[];
+}
+
+export interface WageProfitFrontier {
+  numeraire: number; // Index of the commodity whose price is set to 1
+  maxProfitRate: number;
+  points: FrontierPoint[];
+  priceTurningPoints: { commodity: number; r: number }[];
+}
+
+// Result of decomposing the input graph (i -> j when commodity i enters industry j)
+export interface ReducibilityAnalysis {
+  isReducible: boolean;
+  components: number[][]; // Strongly connected components, as commodity indices
+  isBasic: boolean[];     // Enters directly or indirectly into the production of every commodity
+  basicIndices: number[];
+}
+
+// Fixed capital (Sraffa, ch. X): a durable machine used by one industry, treated as
+// joint production with one process per machine age
+export interface FixedCapitalSpec {
+  machine: number;      // Index of the commodity that is a durable machine
+  industry: number;     // Index of the industry that uses it
+  lifetime: number;     // Physical lifetime, in production periods
+  efficiency: number[]; // Output of the industry at each machine age, relative to a new machine
+}
+
+export interface ExpandedSystem {
+  commodityNames: string[];
+  processNames: string[];
+  inputMatrix: InputMatrix;   // rows = commodities, columns = processes
+  outputMatrix: OutputMatrix; // rows = commodities, columns = processes
+  laborVector: number[];      // By process
+  machineAgeIndices: number[]; // Row of the machine of age t, for t = 0..lifetime-1
+}
+
+export interface FixedCapitalAnalysis {
+  expanded: ExpandedSystem;
+  prices: number[];            // Prices of the original commodities
+  bookValues: number[];        // Price of the machine at each age, new machine at t = 0
+  depreciation: number[];      // Depreciation quota at each age: p_t - p_(t+1)
+  annualCharges: number[];     // Interest and depreciation: (1+r) p_t - p_(t+1)
+  economicLifetime: number;    // Truncation at which no book value is negative
+  isValid: boolean;
+}
+
+// Land and rent (Sraffa, ch. XI)
+// A method of cultivation, per acre
+export interface LandMethod {
+  inputs: number[]; // Means of production per acre, by commodity
+  labor: number;    // Labour per acre
+  output: number;   // Crop per acre
+}
+
+export interface LandQuality {
+  id: number;
+  name: string;
+  acres: number;          // Acreage available
+  methods: LandMethod[];  // A second method allows intensive cultivation
+}
+
+export interface LandSpec {
+  crop: number; // Index of the agricultural commodity; its total output is the demand to be met
+  qualities: LandQuality[];
+}
+
+export interface LandCultivation {
+  acresUsed: number;
+  intensiveShare: number;  // Fraction of the acres cultivated with the second method
+  rentPerAcre: number | null; // null when the land is not cultivated
+}
+
+export interface LandAnalysis {
+  regime: 'extensive' | 'intensive';
+  marginal: number;          // Index of the marginal (extensive) or intensively cultivated land
+  prices: number[];
+  isValid: boolean;
+  cultivation: LandCultivation[];
+  totalRent: number;
+  cropInputs: number[];      // Aggregate means of production of the crop industry
+  cropLabor: number;         // Aggregate labour of the crop industry
+  isFeasible: boolean;       // False when all land, fully cultivated, cannot meet demand
+}
+
+// Choice of technique: an alternative method for an industry, in the units of the input table
+export interface AlternativeMethod {
+  id: number;
+  industry: number;   // Index of the industry (and commodity) it produces
+  name: string;
+  inputs: number[];   // Replacement column of the input matrix
+  laborInput: number; // Labour for the industry's total output
+}
+
+export interface Technique {
+  label: string;
+  methods: (number | null)[]; // Alternative method id per industry; null = the method in the input table
+  matrix: InputMatrix;
+  laborVector: number[];
+  maxProfitRate: number;
+}
+
+export interface SwitchPoint {
+  r: number;
+  wage: number;
+  from: number; // Technique index used just below r
+  to: number;   // Technique index used just above r
+  capitalPerWorkerFrom: number; // Value of capital per worker at the switch-point prices
+  capitalPerWorkerTo: number;
+  capitalReversing: boolean;    // The technique adopted at the higher r is more capital-intensive
+}
+
+export interface ChoiceOfTechniqueAnalysis {
+  techniques: Technique[];
+  numeraire: number;
+  curves: { r: number; wages: (number | null)[] }[]; // Wage of each technique; null beyond its R
+  envelope: { r: number; wage: number; technique: number }[];
+  switchPoints: SwitchPoint[];
+  reswitching: number[];    // Techniques that are cost-minimising on more than one interval of r
+  capitalReversing: boolean;
+  totalTechniques: number;  // Combinations of methods, of which only the first MAX_TECHNIQUES are compared
+  truncated: boolean;
+}
+
+// Reduction to dated quantities of labour (Sraffa, ch. VI)
+export interface DatedLabourReduction {
+  r: number;
+  wage: number;
+  depth: number;
+  datedLabour: number[][];  // [k][j]: labour applied k periods before commodity j is produced, l A^k
+  terms: number[][];        // [k][j]: w l A^k (1+r)^k
+  partialSums: number[][];  // [k][j]: sum of the terms 0..k
+  prices: number[];
+  residue: number[];        // Commodity residue left after `depth` terms: p - partial sum
+  converges: boolean;       // The series converges only for r < R
+}
+
+// The unit in which the wage and prices are measured
+export type NumeraireSpec =
+  | { kind: 'wage'; wage: number }          // A given nominal wage rate
+  | { kind: 'commodity'; commodity: number } // p_commodity = 1
+  | { kind: 'netProduct' }                  // Value of the actual net product = 1
+  | { kind: 'standard' }                    // Value of the Standard net product = 1
+  | { kind: 'basket'; weights: number[] };  // Value of a custom basket = 1
+
+export interface ValueNormalisation {
+  label: string;
+  scale: number;             // Factor applied to prices and the wage
+  totalPrice: number;        // Gross output at prices
+  totalValue: number;        // Gross output at labour values
+  totalProfit: number;
+  totalSurplusValue: number;
+  totalWages: number;
+  totalVariableCapital: number;
+}
+
+export interface LabourValueAnalysis {
+  values: number[];
+  priceValueRatios: (number | null)[]; // p / lambda, with total price = total value
+  constantCapital: number[];           // c: labour embodied in the means of production, per industry
+  variableCapital: number[];           // v
+  surplusValue: number[];              // s
+  organicComposition: (number | null)[]; // c / v
+  valueOfLabourPower: number;          // Labour-time equivalent of the wage per unit of labour
+  normalisations: ValueNormalisation[];
+}
+
+// A monetary input-output table, industry by industry: flows[i][j] = sales of sector i to sector j
+export interface IOTable {
+  sectors: string[];
+  flows: number[][];
+  grossOutput: number[];
+  labour: number[]; // Compensation of employees or hours worked
+}
+
+export interface IOImportResult {
+  table: IOTable | null;
+  errors: string[];
+}
+
+// Sector name -> name of the aggregate it belongs to
+export type SectorMapping = Record<string, string>;
+
+export interface ComplexNumber {
+  re: number;
+  im: number;
+}
+
+export interface SpectralDiagnostics {
+  iterations: number;      // Inverse iterations for the right eigenvector
+  converged: boolean;      // QR algorithm and both inverse iterations converged
+  residual: number;        // ||Ax - rho x|| / ||x||
+  leftResidual: number;    // ||yA - rho y|| / ||y||
+  spectralGap: number;     // 1 - |second eigenvalue| / rho
+  peripheralCount: number; // Eigenvalues with modulus equal to the spectral radius
+}
+
+export interface PerronFrobeniusAnalysis {
+  eigenvalue: number;        // Perron root (dominant real eigenvalue)
+  rightEigenvector: number[]; // A x = rho x, normalised to sum 1
+  leftEigenvector: number[];  // y A = rho y, normalised to sum 1
+  spectrum: ComplexNumber[];  // All eigenvalues, by decreasing modulus
+  isNonNegative: boolean;
+  isIrreducible: boolean;
+  isPrimitive: boolean;
+  period: number | null;      // Index of imprimitivity of an irreducible matrix
+  diagnostics: SpectralDiagnostics;
+}
+
+// An exact rational number; den > 0 and gcd(num, den) = 1
+export interface Fraction {
+  num: bigint;
+  den: bigint;
+}
+
+export type ArithmeticMode = 'float' | 'exact';
+
+export interface ExactSystemAnalysis {
+  r: Fraction;
+  unitWagePrices: Fraction[];          // Prices at w = 1
+  maxProfitRate: Fraction | null;      // null when R is irrational
+  standardNetProduct: Fraction[] | null; // Standard system employing the actual total labour
+  standardWage: Fraction | null;       // Wage with the Standard net product as numeraire
+  expectedStandardWage: Fraction | null; // 1 - r/R (over 1 + r with advanced wages)
+}
+
+// Overall verdict, most fundamental cause first
+export type SystemStatus = 'invalidInput' | 'nonProductive' | 'singular' | 'negativePrices' | 'negativeWage' | 'ok';
+
+export interface DiagnosticIssue {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  commodity?: number; // Commodity or industry the issue refers to
+}
+
+export interface SystemDiagnostics {
+  status: SystemStatus;
+  headline: string;           // Short verdict for the header
+  pricesPositive: boolean;
+  surplus: number[];          // Physical net product of each commodity
+  hawkinsSimon: boolean | null; // Leading principal minors of I - A all positive (single-product only)
+  leadingMinors: number[];
+  inverseExists: boolean;     // (I - A), or (B - A) under joint production, is invertible
+  inverseNonNegative: boolean;
+  zeroOutputIndustries: number[];
+  negativePrices: number[];
+  issues: DiagnosticIssue[];
+}
+
+// Technical change: a new method proposed for one industry, in the units of the input table
+export interface TechnicalChangeSpec {
+  industry: number;
+  inputs: number[];            // Replacement column of the input matrix
+  laborInput: number;          // Labour for the industry's total output
+  wageBasket: number[] | null; // Real wage per unit of labour; null = what the current wage buys of the net product
+}
+
+export interface TechnicalChangeAnalysis {
+  wageBasket: number[];
+  costOld: number;     // Cost of the industry's output with the old method, at current prices and r
+  costNew: number;     // The same with the new method
+  costReducing: boolean;
+  isBasic: boolean | null; // Whether the industry's product is basic after the change (single-product only)
+  maxProfitRateBefore: number;
+  maxProfitRateAfter: number;
+  profitRateBefore: number | null; // Uniform r at which the basket is the wage; null when there is no surplus for profits
+  profitRateAfter: number | null;
+  pricesBefore: number[];          // At the real wage, price of the numeraire commodity = 1
+  pricesAfter: number[];
+  capitalPerWorkerBefore: number | null; // Means of production per worker, in the numeraire commodity
+  capitalPerWorkerAfter: number | null;
+  frontierBefore: WageProfitFrontier;
+  frontierAfter: WageProfitFrontier;
+  okishioHolds: boolean | null;    // A cost-reducing method does not lower r; null when the method is not cost-reducing
+}
+
+// Derivatives of prices with respect to the coefficients: a_ij = Q_ij / X_j and l_j = L_j / X_j,
+// or the quantities per process under joint production. The first index is the priced commodity k.
+export interface PriceSensitivity {
+  prices: number[];
+  inputDerivatives: number[][][];  // [k][i][j]: dp_k / da_ij
+  laborDerivatives: number[][];    // [k][j]: dp_k / dl_j
+  profitRateDerivatives: number[]; // dp_k / dr
+  inputElasticities: number[][][]; // (a_ij / p_k) dp_k / da_ij; also the elasticity with respect to Q_ij
+  laborElasticities: number[][];
+  profitRateElasticities: number[];
+}
+
+export interface SensitivityEntry {
+  kind: 'input' | 'labor' | 'profitRate';
+  input: number | null;    // Commodity used, for an input coefficient
+  industry: number | null; // Industry (or process) using it; null for r
+  derivative: number;
+  elasticity: number;
+}
+
+// Undo/redo: the system states before and after the present one
+export interface EditHistory {
+  past: SystemState[];
+  present: SystemState;
+  future: SystemState[];
+  lastRecorded: number; // Time of the last recorded edit, in ms; quick successive edits are merged
+}
+
+export interface Snapshot {
+  id: number;
+  name: string;
+  createdAt: string; // ISO timestamp
+  state: SystemState;
+}
+
+// Headline results of a state, circulating capital only
+export interface StateSummary {
+  prices: number[];
+  wage: number;
+  maxProfitRate: number;
+  wageShare: number;   // Percent of the net product
+  profitShare: number;
+}
+
+export interface CellChange {
+  input: string;    // Commodity used, or 'Labour', 'Output' and, under joint production, 'Output of <commodity>'
+  industry: string; // Industry using it
+  before: number;
+  after: number;
+}
+
+export interface SnapshotComparison {
+  commodities: string[]; // Commodities present in both states, matched by id
+  added: string[];       // Only in the second state
+  removed: string[];     // Only in the first state
+  cellChanges: CellChange[];
+  priceChanges: { commodity: string; before: number | null; after: number | null }[]; // Shared commodities
+  before: StateSummary | null;
+  after: StateSummary | null;
+  profitRateBefore: number;
+  profitRateAfter: number;
+}
+
+// Headless engine: overrides applied to a state before solving
+export interface SolveOptions {
+  profitRate?: number; // Replaces the state's r
+  wage?: number;       // Makes the wage the numeraire at this level
+}
+
+export interface EngineAggregates {
+  totalWages: number;
+  totalProfits: number;
+  totalCapital: number; // Value of the means of production
+  netProduct: number;
+  wageShare: number;    // Percent of the net product
+  profitShare: number;
+  wagesByType: number[] | null; // Wage bill of each labour type
+}
+
+// Everything the engine reports for one state at one rate of profit
+export interface EngineResult {
+  profitRate: number;
+  wage: number | null;  // null when there are no prices or the numeraire is worth nothing
+  prices: number[];
+  maxProfitRate: number;
+  aggregates: EngineAggregates | null; // null when there are no prices
+  diagnostics: SystemDiagnostics;
+}
+
+// The dual quantity system: balanced growth Bz = (1+g)Qz + c, with industry (or process)
+// intensities z relative to the actual system, so that the actual system is z = 1
+export interface QuantitySystem {
+  growthRate: number;
+  maxGrowthRate: number;       // G of the whole system; equal to R when every commodity is basic, and then the Standard system grows at it with c = 0
+  consumption: number[];       // c, in the proportions of the actual net product
+  activityLevels: number[];    // z
+  grossOutput: number[];       // Bz, by commodity
+  isFeasible: boolean;         // No negative activity level
+  surplusRatios: (number | null)[]; // Actual net product / means of production used up, by commodity
+  sustainableGrowthRate: number;    // Highest g the actual outputs allow with c >= 0: the lowest surplus ratio
+  standardDistance: number | null;  // Largest |z_j - 1| of the Standard system; 0 when the actual system is Standard
+  consumptionValue: number | null; // p . c at r = g, with w = 1; null when prices are undefined there
+  wageBill: number;            // Wage charge of the labour employed, L . z, at r = g with w = 1
+}
+
+// Cambridge equation: with workers consuming their wages, r = g / s_c
+export interface CambridgeClosure {
+  savingsPropensity: number;  // s_c, out of profits
+  profitRate: number;         // r = g / s_c
+  withinR: boolean;
+}
+
+// Demand-driven (Leontief) side of a single-product system: x = (I - A)^-1 f
+export interface FinalDemandAnalysis {
+  finalDemand: number[];
+  leontiefInverse: number[][];
+  grossOutputs: number[];          // Required gross output of each industry
+  employment: number[];            // l_j x_j
+  totalEmployment: number;
+  outputMultipliers: number[];     // Column sums of (I - A)^-1: gross output per unit of final demand for j
+  employmentMultipliers: number[]; // l (I - A)^-1: labour per unit of final demand for j
+  isProductive: boolean;           // (I - A)^-1 >= 0, so any f >= 0 can be met
+}
+
+// A kind of labour paid its own wage: relativeWage times the wage w set by the numeraire.
+// Differences in pay are taken as given, so an hour of a type counts as relativeWage hours
+// of labour at w, as Sraffa reduces differences in quality of labour to differences in quantity
+export interface LabourType {
+  id: number;
+  name: string;
+  relativeWage: number;
+}
+
+// A hierarchy of profit rates r_j = f_j r set against the uniform rate r, in the same numeraire
+export interface ProfitHierarchyAnalysis {
+  rates: number[];                 // r_j
+  averageRate: number;             // Total profits over total capital advanced
+  uniformPrices: number[];         // Prices at the uniform rate r
+  priceChanges: (number | null)[]; // Percent change of each price from its uniform-rate price
+  wageShare: number;               // Percent of the net product
+  uniformWageShare: number;
+}
+
+// How market prices and quantities adjust out of the long-period position:
+// crossDual  - quantities follow profit differentials, prices follow excess demand
+// damped     - cross-dual plus own-dual terms: prices also fall where profits are above average
+//              and quantities also follow excess demand
+// ownDual    - prices move towards cost at the average rate, quantities towards demand
+export type GravitationRule = 'crossDual' | 'damped' | 'ownDual';
+
+export interface GravitationSpec {
+  rule: GravitationRule;
+  priceSpeed: number;          // Reaction of prices per step
+  quantitySpeed: number;       // Reaction of outputs per step
+  steps: number;
+  initialPrices: number[];     // Market prices as multiples of the prices of production
+  initialQuantities: number[]; // Outputs as multiples of the actual outputs
+}
+
+export interface GravitationPoint {
+  step: number;
+  prices: number[];       // Relative to the prices of production
+  quantities: number[];   // Relative to the actual outputs
+  profitRates: number[];  // At market prices
+  averageRate: number;
+  distance: number;       // Largest relative gap of any price or output from its centre
+}
+
+export type GravitationOutcome = 'converged' | 'converging' | 'cycling' | 'diverging' | 'diverged';
+
+export interface GravitationResult {
+  path: GravitationPoint[];
+  outcome: GravitationOutcome;
+  convergenceStep: number | null; // First step after which the distance stays below tolerance
+  halfLife: number | null;        // Steps for the distance to halve, from its trend
+  oscillations: number;           // Turning points of the price deviations
+  divergedAt: number | null;      // Step at which a price or output stopped being positive and finite
+}
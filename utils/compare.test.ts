@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { compareStates } from './compare';
+import { WHEAT_IRON } from '../test/fixtures';
+
+describe('compareStates', () => {
+  it('lists changed cells of the input matrix, labour and output', () => {
+    const after = { ...WHEAT_IRON, matrix: [[280, 100], [12, 8]] };
+    expect(compareStates(WHEAT_IRON, after).cellChanges).toEqual([
+      { input: 'Wheat', industry: 'Iron', before: 120, after: 100 }
+    ]);
+  });
+
+  it('lists changed joint outputs', () => {
+    const before = { ...WHEAT_IRON, outputMatrix: [[575, 0], [0, 20]] };
+    const after = { ...WHEAT_IRON, outputMatrix: [[575, 10], [0, 20]] };
+    expect(compareStates(before, after).cellChanges).toEqual([
+      { input: 'Output of Wheat', industry: 'Iron', before: 0, after: 10 }
+    ]);
+    expect(compareStates(WHEAT_IRON, after).cellChanges).toEqual(compareStates(before, after).cellChanges);
+  });
+});
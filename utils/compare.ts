@@ -0,0 +1,65 @@
+import { CellChange, SnapshotComparison, StateSummary, SystemState } from '../types';
+import { solveState } from '../engine/solve';
+import { singleProductOutputMatrix } from './math';
+
+/**
+ * Prices, wage, R and distributive shares of a saved state, from the headless engine.
+ * Returns null when the price system has no solution.
+ */
+export const summarizeState = (state: SystemState): StateSummary | null => {
+  const { prices, wage, maxProfitRate, aggregates } = solveState(state);
+  if (!aggregates || wage === null) return null;
+  return { prices, wage, maxProfitRate, wageShare: aggregates.wageShare, profitShare: aggregates.profitShare };
+};
+
+/**
+ * Compares two states, matching commodities by id so that adding or removing one does not
+ * shift the rest. Every changed cell of the input matrix, labour and output is listed; when
+ * either state has joint production, outputs are compared cell by cell of the output matrix.
+ */
+export const compareStates = (before: SystemState, after: SystemState): SnapshotComparison => {
+  const afterIndex = new Map(after.commodities.map((c, i) => [c.id, i]));
+  const beforeIds = new Set(before.commodities.map(c => c.id));
+  const shared = before.commodities
+    .map((c, i) => ({ id: c.id, name: c.name, b: i, a: afterIndex.get(c.id) }))
+    .filter((c): c is { id: number; name: string; b: number; a: number } => c.a !== undefined);
+
+  const cellChanges: CellChange[] = [];
+  const note = (input: string, industry: string, x: number, y: number) => {
+    if (x !== y) cellChanges.push({ input, industry, before: x, after: y });
+  };
+  const joint = Boolean(before.outputMatrix || after.outputMatrix);
+  const outputsOf = (state: SystemState) =>
+    state.outputMatrix ?? singleProductOutputMatrix(state.commodities.map(c => c.totalOutput));
+  const outputsBefore = outputsOf(before);
+  const outputsAfter = outputsOf(after);
+
+  shared.forEach(col => {
+    shared.forEach(row => note(row.name, col.name, before.matrix[row.b][col.b], after.matrix[row.a][col.a]));
+    note('Labour', col.name, before.commodities[col.b].laborInput, after.commodities[col.a].laborInput);
+    if (joint) {
+      shared.forEach(row => note(`Output of ${row.name}`, col.name, outputsBefore[row.b][col.b], outputsAfter[row.a][col.a]));
+    } else {
+      note('Output', col.name, before.commodities[col.b].totalOutput, after.commodities[col.a].totalOutput);
+    }
+  });
+
+  const summaryBefore = summarizeState(before);
+  const summaryAfter = summarizeState(after);
+
+  return {
+    commodities: shared.map(c => c.name),
+    added: after.commodities.filter(c => !beforeIds.has(c.id)).map(c => c.name),
+    removed: before.commodities.filter(c => !afterIndex.has(c.id)).map(c => c.name),
+    cellChanges,
+    priceChanges: shared.map(c => ({
+      commodity: c.name,
+      before: summaryBefore?.prices[c.b] ?? null,
+      after: summaryAfter?.prices[c.a] ?? null
+    })),
+    before: summaryBefore,
+    after: summaryAfter,
+    profitRateBefore: before.profitRate,
+    profitRateAfter: after.profitRate
+  };
+};
@@ -0,0 +1,181 @@
+import { Commodity, DiagnosticIssue, InputMatrix, ProductionOptions, SystemDiagnostics, SystemStatus } from '../types';
+import { buildCoefficientMatrix, invertMatrix } from './math';
+import { calculateNetProduct } from './numeraire';
+
+/**
+ * Determinant by Gaussian elimination with partial pivoting.
+ */
+const determinant = (M: number[][]): number => {
+  const a = M.map(row => [...row]);
+  const n = a.length;
+  let det = 1;
+  for (let i = 0; i < n; i++) {
+    let pivot = i;
+    for (let k = i + 1; k < n; k++) {
+      if (Math.abs(a[k][i]) > Math.abs(a[pivot][i])) pivot = k;
+    }
+    if (a[pivot][i] === 0) return 0;
+    if (pivot !== i) {
+      [a[i], a[pivot]] = [a[pivot], a[i]];
+      det = -det;
+    }
+    det *= a[i][i];
+    for (let k = i + 1; k < n; k++) {
+      const f = a[k][i] / a[i][i];
+      for (let j = i; j < n; j++) a[k][j] -= f * a[i][j];
+    }
+  }
+  return det;
+};
+
+/**
+ * Checks the data and the solution of the price system, and explains what is wrong in order of
+ * precedence: invalid input, a system that is not productive, a singular price system,
+ * negative prices, whose cause (r above R, joint production, a non-basic commodity) is spelt
+ * out, and finally a negative wage behind positive prices. Prices below -negativeTolerance
+ * count as negative; exact prices use 0.
+ */
+export const diagnoseSystem = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  prices: number[],
+  r: number,
+  maxProfitRate: number | null,
+  options: ProductionOptions = {},
+  negativeTolerance: number = 1e-6
+): SystemDiagnostics => {
+  const n = commodities.length;
+  const outputMatrix = options.outputMatrix ?? null;
+  const issues: DiagnosticIssue[] = [];
+  const name = (i: number) => commodities[i]?.name ?? `#${i + 1}`;
+
+  const report = (status: SystemStatus, headline: string, rest: Partial<SystemDiagnostics> = {}): SystemDiagnostics => ({
+    status,
+    headline,
+    pricesPositive: false,
+    surplus: [],
+    hawkinsSimon: null,
+    leadingMinors: [],
+    inverseExists: false,
+    inverseNonNegative: false,
+    zeroOutputIndustries: [],
+    negativePrices: [],
+    issues,
+    ...rest
+  });
+
+  // Dimensions and values of the data
+  const checkShape = (M: number[][], label: string) => {
+    if (M.length !== n || M.some(row => row.length !== n)) {
+      issues.push({ severity: 'error', message: `${label} is ${M.length}×${M[0]?.length ?? 0}, but there are ${n} commodities.` });
+      return false;
+    }
+    return true;
+  };
+  const checkEntries = (M: number[][], label: string) => M.forEach((row, i) => row.forEach((q, j) => {
+    if (!Number.isFinite(q)) issues.push({ severity: 'error', message: `${label}: ${name(i)} in industry ${name(j)} is not a number.`, commodity: j });
+    else if (q < 0) issues.push({ severity: 'error', message: `${label}: ${name(i)} in industry ${name(j)} is negative.`, commodity: j });
+  }));
+
+  if (checkShape(matrix, 'The input matrix')) checkEntries(matrix, 'Input');
+  if (outputMatrix && checkShape(outputMatrix, 'The output matrix')) checkEntries(outputMatrix, 'Output');
+  commodities.forEach((c, j) => {
+    if (!Number.isFinite(c.totalOutput) || !Number.isFinite(c.laborInput)) {
+      issues.push({ severity: 'error', message: `${c.name}: output or labour is not a number.`, commodity: j });
+    } else if (c.totalOutput < 0 || c.laborInput < 0) {
+      issues.push({ severity: 'error', message: `${c.name}: output or labour is negative.`, commodity: j });
+    }
+  });
+  if (!Number.isFinite(r)) issues.push({ severity: 'error', message: 'The rate of profit is not a number.' });
+  if (issues.length > 0) return report('invalidInput', 'INVALID INPUT');
+
+  // Industries producing nothing: their coefficients would be silently taken as 0
+  const zeroOutputIndustries = commodities
+    .map((c, j) => j)
+    .filter(j => (outputMatrix ? outputMatrix.every(row => row[j] === 0) : commodities[j].totalOutput === 0));
+  zeroOutputIndustries.forEach(j => issues.push({
+    severity: 'warning',
+    message: `Industry ${name(j)} produces nothing, so it has no input coefficients; ${outputMatrix ? 'the process is idle' : 'its price is set to zero'}.`,
+    commodity: j
+  }));
+
+  // Physical surplus of each commodity
+  const surplus = calculateNetProduct(commodities, matrix, outputMatrix);
+  surplus.forEach((s, i) => {
+    if (s < 0) {
+      issues.push({ severity: 'error', message: `More ${name(i)} is used up than produced (deficit ${(-s).toFixed(3)}).`, commodity: i });
+    }
+  });
+  if (surplus.every(s => Math.abs(s) < 1e-12)) {
+    issues.push({ severity: 'warning', message: 'The system only reproduces itself: there is no surplus, so R = 0.' });
+  }
+
+  // Hawkins-Simon: every leading principal minor of I - A is positive
+  let hawkinsSimon: boolean | null = null;
+  let leadingMinors: number[] = [];
+  let M: number[][];
+  if (outputMatrix) {
+    M = outputMatrix.map((row, i) => row.map((b, j) => b - matrix[i][j]));
+  } else {
+    const A = buildCoefficientMatrix(matrix, commodities.map(c => c.totalOutput));
+    M = A.map((row, i) => row.map((a, j) => (i === j ? 1 : 0) - a));
+    leadingMinors = M.map((_, k) => determinant(M.slice(0, k + 1).map(row => row.slice(0, k + 1))));
+    hawkinsSimon = leadingMinors.every(d => d > 1e-12);
+    if (!hawkinsSimon) {
+      const k = leadingMinors.findIndex(d => d <= 1e-12);
+      issues.push({
+        severity: 'error',
+        message: `Hawkins–Simon conditions fail: the leading minor of order ${k + 1} of I − A is ${leadingMinors[k].toExponential(3)}. The system cannot produce a surplus of every commodity.`
+      });
+    }
+  }
+
+  const inverse = invertMatrix(M);
+  const inverseExists = inverse !== null;
+  const inverseNonNegative = inverse !== null && inverse.every(row => row.every(v => v >= -1e-9));
+  if (!inverseExists) {
+    issues.push({ severity: 'error', message: `${outputMatrix ? 'B − A' : 'I − A'} is singular: no net output can be produced independently of the others.` });
+  } else if (!inverseNonNegative && !outputMatrix) {
+    issues.push({ severity: 'error', message: '(I − A)⁻¹ has negative entries: some net outputs would require negative activity.' });
+  }
+
+  const nonProductive = surplus.some(s => s < 0) || hawkinsSimon === false || (!outputMatrix && !inverseNonNegative);
+  const rest = { surplus, hawkinsSimon, leadingMinors, inverseExists, inverseNonNegative, zeroOutputIndustries };
+  if (nonProductive) return report('nonProductive', 'SYSTEM NOT PRODUCTIVE', rest);
+
+  if (prices.length !== n) {
+    const atR = maxProfitRate !== null && Math.abs(r - maxProfitRate) < 1e-6;
+    issues.push({
+      severity: 'error',
+      message: atR
+        ? 'At r = R the wage is zero and the price system is singular: prices are only defined up to a factor.'
+        : 'The price system is singular for this rate of profit.'
+    });
+    return report('singular', 'SINGULAR PRICE SYSTEM', rest);
+  }
+
+  const negativePrices = prices.map((p, i) => i).filter(i => prices[i] < -negativeTolerance);
+  if (negativePrices.length > 0) {
+    const list = negativePrices.map(name).join(', ');
+    const aboveR = maxProfitRate !== null && r > maxProfitRate;
+    let headline = 'NEGATIVE PRICES';
+    if (aboveR) {
+      headline = 'NEGATIVE PRICES (r > R)';
+      issues.push({ severity: 'error', message: `Negative price of ${list}: r = ${(r * 100).toFixed(1)}% exceeds R = ${(maxProfitRate * 100).toFixed(1)}%, so the wage would have to be negative.` });
+    } else if (outputMatrix) {
+      headline = 'NEGATIVE PRICES (JOINT PRODUCTION)';
+      issues.push({ severity: 'warning', message: `Negative price of ${list} below R: under joint production this can happen without any error in the data.` });
+    } else {
+      issues.push({ severity: 'error', message: `Negative price of ${list} although r < R: a non-basic commodity whose own maximum rate of profit is below r cannot be produced at this rate.` });
+    }
+    return report('negativePrices', headline, { ...rest, negativePrices });
+  }
+
+  // Above R, a commodity numeraire keeps prices positive by making the wage negative
+  if (maxProfitRate !== null && r > maxProfitRate + 1e-9) {
+    issues.push({ severity: 'error', message: `r = ${(r * 100).toFixed(1)}% exceeds R = ${(maxProfitRate * 100).toFixed(1)}%: prices are positive only because the wage is negative.` });
+    return report('negativeWage', 'NEGATIVE WAGE (r > R)', { ...rest, pricesPositive: true });
+  }
+
+  return report('ok', 'PRICES POSITIVE', { ...rest, pricesPositive: true });
+};
@@ -0,0 +1,218 @@
+import { Commodity, ExactSystemAnalysis, Fraction, InputMatrix, NumeraireSpec, OutputMatrix, ProductionOptions } from '../types';
+import {
+  fraction,
+  fractionAdd,
+  fractionDiv,
+  fractionDot,
+  fractionFromNumber,
+  fractionMul,
+  fractionSign,
+  fractionSub,
+  ONE,
+  ZERO
+} from './fraction';
+import { singleProductOutputMatrix } from './math';
+
+/**
+ * Solves Ax = b exactly by Gaussian elimination over the rationals. Any non-zero pivot will
+ * do, since there is no rounding to control; null means A is exactly singular.
+ */
+export const solveLinearSystemExact = (A: Fraction[][], b: Fraction[]): Fraction[] | null => {
+  const n = A.length;
+  const aug = A.map((row, i) => [...row, b[i]]);
+
+  for (let i = 0; i < n; i++) {
+    const pivot = aug.findIndex((row, k) => k >= i && fractionSign(row[i]) !== 0);
+    if (pivot === -1) return null;
+    [aug[i], aug[pivot]] = [aug[pivot], aug[i]];
+
+    for (let k = i + 1; k < n; k++) {
+      if (fractionSign(aug[k][i]) === 0) continue;
+      const factor = fractionDiv(aug[k][i], aug[i][i]);
+      for (let j = i; j <= n; j++) aug[k][j] = fractionSub(aug[k][j], fractionMul(factor, aug[i][j]));
+    }
+  }
+
+  const x: Fraction[] = new Array(n).fill(ZERO);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = ZERO;
+    for (let j = i + 1; j < n; j++) sum = fractionAdd(sum, fractionMul(aug[i][j], x[j]));
+    x[i] = fractionDiv(fractionSub(aug[i][n], sum), aug[i][i]);
+  }
+  return x;
+};
+
+/**
+ * A non-zero solution of Mx = 0, from the reduced row echelon form, or null when M has full
+ * column rank.
+ */
+const nullVectorExact = (M: Fraction[][]): Fraction[] | null => {
+  const rows = M.map(row => [...row]);
+  const n = rows[0]?.length ?? 0;
+  const pivotCols: number[] = [];
+
+  for (let c = 0; c < n && pivotCols.length < rows.length; c++) {
+    const rank = pivotCols.length;
+    const p = rows.findIndex((row, k) => k >= rank && fractionSign(row[c]) !== 0);
+    if (p === -1) continue;
+    [rows[rank], rows[p]] = [rows[p], rows[rank]];
+    const lead = rows[rank][c];
+    rows[rank] = rows[rank].map(v => fractionDiv(v, lead));
+    rows.forEach((row, k) => {
+      if (k === rank || fractionSign(row[c]) === 0) return;
+      const f = row[c];
+      rows[k] = row.map((v, j) => fractionSub(v, fractionMul(f, rows[rank][j])));
+    });
+    pivotCols.push(c);
+  }
+
+  const free = Array.from({ length: n }, (_, c) => c).find(c => !pivotCols.includes(c));
+  if (free === undefined) return null;
+  const x: Fraction[] = new Array(n).fill(ZERO);
+  x[free] = ONE;
+  pivotCols.forEach((c, k) => {
+    x[c] = fractionSub(ZERO, rows[k][free]);
+  });
+  return x;
+};
+
+/**
+ * Continued-fraction convergents of x with denominators up to maxDen: the candidates for
+ * an exact rational value of a floating-point result.
+ */
+const convergents = (x: number, maxDen: bigint = 1000000n): Fraction[] => {
+  const out: Fraction[] = [];
+  let [h0, h1, k0, k1] = [0n, 1n, 1n, 0n];
+  let y = x;
+  for (let i = 0; i < 40 && Number.isFinite(y); i++) {
+    const a = Math.floor(y);
+    const big = BigInt(a);
+    [h0, h1] = [h1, big * h1 + h0];
+    [k0, k1] = [k1, big * k1 + k0];
+    if (k1 > maxDen) break;
+    out.push(fraction(h1, k1));
+    if (y - a < 1e-12) break;
+    y = 1 / (y - a);
+  }
+  return out;
+};
+
+const toFractions = (M: number[][]): Fraction[][] | null => {
+  const out = M.map(row => row.map(fractionFromNumber));
+  return out.every(row => row.every(v => v !== null)) ? (out as Fraction[][]) : null;
+};
+
+/**
+ * Exact prices of production for systems with rational data, in the joint-production form
+ * p(B - (1+r)A) = wL, which covers single-product industries with B = diag(X) without any
+ * division by output. R is not in general rational (it is a root of the characteristic
+ * polynomial); it is found exactly when the floating-point R is a convergent at which
+ * B - (1+R)A has a semi-positive null vector, which then gives the Standard proportions.
+ */
+export const analyzeExactSystem = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  r: number,
+  approxMaxProfitRate: number | null,
+  options: ProductionOptions = {}
+): ExactSystemAnalysis | null => {
+  const n = totalOutputs.length;
+  const Q = toFractions(physicalMatrix);
+  const B = toFractions(options.outputMatrix ?? singleProductOutputMatrix(totalOutputs));
+  const L = toFractions([laborVector])?.[0];
+  const rF = fractionFromNumber(r);
+  if (!Q || !B || !L || !rF) return null;
+
+  const onePlusR = fractionAdd(ONE, rF);
+  const charge = options.wageClosure === 'anteFactum' ? onePlusR : ONE;
+
+  // Row j is the price equation of process j
+  const system = Array.from({ length: n }, (_, j) =>
+    Array.from({ length: n }, (_, i) => fractionSub(B[i][j], fractionMul(onePlusR, Q[i][j])))
+  );
+  const unitWagePrices = solveLinearSystemExact(system, L.map(l => fractionMul(l, charge)));
+  if (!unitWagePrices) return null;
+
+  let maxProfitRate: Fraction | null = null;
+  let standardNetProduct: Fraction[] | null = null;
+
+  if (approxMaxProfitRate !== null) {
+    for (const R of convergents(approxMaxProfitRate)) {
+      const onePlusMax = fractionAdd(ONE, R);
+      const q = nullVectorExact(B.map((row, i) => row.map((b, j) => fractionSub(b, fractionMul(onePlusMax, Q[i][j])))));
+      if (!q) continue;
+      const sign = q.some(v => fractionSign(v) > 0) ? 1 : -1;
+      if (q.some(v => fractionSign(v) * sign < 0)) continue;
+
+      // Scale the Standard system to employ the actual total labour
+      const totalLabour = L.reduce(fractionAdd, ZERO);
+      const employed = fractionDot(q, L);
+      if (fractionSign(employed) === 0) continue;
+      const scale = fractionDiv(totalLabour, employed);
+      const multipliers = q.map(v => fractionMul(v, scale));
+
+      maxProfitRate = R;
+      standardNetProduct = B.map((row, i) =>
+        row.reduce((s, b, j) => fractionAdd(s, fractionMul(fractionSub(b, Q[i][j]), multipliers[j])), ZERO)
+      );
+      break;
+    }
+  }
+
+  let standardWage: Fraction | null = null;
+  let expectedStandardWage: Fraction | null = null;
+  if (maxProfitRate && standardNetProduct && fractionSign(maxProfitRate) > 0) {
+    const value = fractionDot(unitWagePrices, standardNetProduct);
+    if (fractionSign(value) !== 0) {
+      standardWage = fractionDiv(L.reduce(fractionAdd, ZERO), value);
+      expectedStandardWage = fractionDiv(fractionSub(ONE, fractionDiv(rF, maxProfitRate)), charge);
+    }
+  }
+
+  return { r: rF, unitWagePrices, maxProfitRate, standardNetProduct, standardWage, expectedStandardWage };
+};
+
+/**
+ * The numeraire basket in exact quantities (see getNumeraireBasket in utils/numeraire).
+ */
+export const getExactNumeraireBasket = (
+  spec: NumeraireSpec,
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  outputMatrix: OutputMatrix | null,
+  exact: ExactSystemAnalysis
+): Fraction[] | null => {
+  switch (spec.kind) {
+    case 'wage':
+      return null;
+    case 'commodity':
+      return commodities.map((_, i) => (i === spec.commodity ? ONE : ZERO));
+    case 'netProduct': {
+      const Q = toFractions(matrix);
+      const B = toFractions(outputMatrix ?? singleProductOutputMatrix(commodities.map(c => c.totalOutput)));
+      if (!Q || !B) return null;
+      return commodities.map((_, i) => fractionSub(B[i].reduce(fractionAdd, ZERO), Q[i].reduce(fractionAdd, ZERO)));
+    }
+    case 'standard':
+      return exact.standardNetProduct;
+    case 'basket': {
+      const weights = commodities.map((_, i) => fractionFromNumber(spec.weights[i] ?? 0));
+      return weights.every(w => w !== null) ? (weights as Fraction[]) : null;
+    }
+  }
+};
+
+/**
+ * Exact wage in the chosen numeraire: w = 1 / (p^ . b), as in resolveWage.
+ */
+export const resolveExactWage = (
+  spec: NumeraireSpec,
+  exact: ExactSystemAnalysis,
+  basket: Fraction[] | null
+): Fraction | null => {
+  if (spec.kind === 'wage') return fractionFromNumber(spec.wage);
+  if (!basket) return null;
+  const value = fractionDot(exact.unitWagePrices, basket);
+  return fractionSign(value) === 0 ? null : fractionDiv(ONE, value);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFixedCapital } from './fixedCapital';
+import { WHEAT_IRON } from '../test/fixtures';
+
+const { commodities, matrix } = WHEAT_IRON;
+
+// Iron is a machine used in wheat; it wears out in its fourth and fifth periods
+const spec = (lifetime: number) => ({ machine: 1, industry: 0, lifetime, efficiency: [1, 1, 1, 0.5, 0.2].slice(0, lifetime) });
+
+describe('analyzeFixedCapital', () => {
+  it('keeps the physical lifetime when every book value is non-negative', () => {
+    const analysis = analyzeFixedCapital(commodities, matrix, { machine: 1, industry: 0, lifetime: 3, efficiency: [1, 1, 1] }, 0.1);
+    expect(analysis!.economicLifetime).toBe(3);
+    expect(analysis!.bookValues.every(p => p >= 0)).toBe(true);
+  });
+
+  it.each([4, 5])('truncates a physical life of %i to the longest viable life', lifetime => {
+    const analysis = analyzeFixedCapital(commodities, matrix, spec(lifetime), 0.1);
+    expect(analysis!.economicLifetime).toBe(3);
+    expect(analysis!.bookValues.every(p => p >= -1e-9)).toBe(true);
+    expect(analysis!.bookValues[0]).toBeCloseTo(2.371, 3);
+    expect(analysis!.bookValues[1]).toBeCloseTo(1.655, 3);
+    expect(analysis!.bookValues[2]).toBeCloseTo(0.867, 3);
+
+    const shorter = analyzeFixedCapital(commodities, matrix, spec(2), 0.1);
+    expect(analysis!.prices[0]).toBeCloseTo(0.110, 3);
+    expect(shorter!.prices[0]).toBeCloseTo(0.137, 3);
+  });
+});
@@ -0,0 +1,130 @@
+import { Commodity, ExpandedSystem, FixedCapitalAnalysis, FixedCapitalSpec, InputMatrix, OutputMatrix } from '../types';
+import { calculateJointProductionPrices, singleProductOutputMatrix } from './math';
+
+// Longest machine life, in production periods; each age adds a process and a commodity
+export const MAX_LIFETIME = 30;
+
+/**
+ * Expands a system so that the machine is treated as fixed capital.
+ *
+ * The using industry is split into one process per machine age t = 0..lifetime-1.
+ * Process t uses the industry's circulating inputs, its labour and the machines of age t,
+ * and jointly produces efficiency[t] times the industry's output and the machines of
+ * age t+1 (the last process scraps them). Other industries keep the machine as circulating capital.
+ */
+export const expandFixedCapital = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  spec: FixedCapitalSpec,
+  outputMatrix?: OutputMatrix | null
+): ExpandedSystem => {
+  const n = commodities.length;
+  const { machine, industry, lifetime } = spec;
+  const B = outputMatrix ?? singleProductOutputMatrix(commodities.map(c => c.totalOutput));
+  const machinesInUse = matrix[machine][industry];
+
+  // Commodities: the originals, then the machine at ages 1..lifetime-1
+  const commodityNames = [
+    ...commodities.map(c => c.name),
+    ...Array.from({ length: lifetime - 1 }, (_, t) => `${commodities[machine].name} (age ${t + 1})`)
+  ];
+  const machineAgeIndices = Array.from({ length: lifetime }, (_, t) => (t === 0 ? machine : n + t - 1));
+  const m = commodityNames.length;
+
+  // Processes: the other industries unchanged, then the vintages of the using industry
+  const otherIndustries = commodities.map((_, j) => j).filter(j => j !== industry);
+  const processNames = [
+    ...otherIndustries.map(j => commodities[j].name),
+    ...Array.from({ length: lifetime }, (_, t) => `${commodities[industry].name} (machine age ${t})`)
+  ];
+
+  const inputColumns: number[][] = [];
+  const outputColumns: number[][] = [];
+  const laborVector: number[] = [];
+
+  otherIndustries.forEach(j => {
+    inputColumns.push(Array.from({ length: m }, (_, i) => (i < n ? matrix[i][j] : 0)));
+    outputColumns.push(Array.from({ length: m }, (_, i) => (i < n ? B[i][j] : 0)));
+    laborVector.push(commodities[j].laborInput);
+  });
+
+  for (let t = 0; t < lifetime; t++) {
+    const efficiency = spec.efficiency[t] ?? 1;
+
+    const inputs = Array.from({ length: m }, (_, i) => (i < n && i !== machine ? matrix[i][industry] : 0));
+    inputs[machineAgeIndices[t]] = machinesInUse;
+
+    const outputs = Array.from({ length: m }, (_, i) => (i < n ? B[i][industry] * efficiency : 0));
+    if (t + 1 < lifetime) outputs[machineAgeIndices[t + 1]] = machinesInUse;
+
+    inputColumns.push(inputs);
+    outputColumns.push(outputs);
+    laborVector.push(commodities[industry].laborInput);
+  }
+
+  // Transpose the process columns into rows = commodities, columns = processes
+  const toMatrix = (columns: number[][]) =>
+    Array.from({ length: m }, (_, i) => columns.map(column => column[i]));
+
+  return {
+    commodityNames,
+    processNames,
+    inputMatrix: toMatrix(inputColumns),
+    outputMatrix: toMatrix(outputColumns),
+    laborVector,
+    machineAgeIndices
+  };
+};
+
+/**
+ * Solves the fixed-capital system and derives book values, depreciation quotas and the
+ * economic lifetime. Whenever an old machine would have a negative price, it pays to scrap
+ * it earlier, so the system is truncated by one period and solved again until every book
+ * value is non-negative (Sraffa, par. 74). Cutting straight to the first negative age could
+ * skip a longer life that is still viable, since the book values change with the truncation.
+ */
+export const analyzeFixedCapital = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  spec: FixedCapitalSpec,
+  r: number,
+  w: number = 1.0,
+  outputMatrix?: OutputMatrix | null
+): FixedCapitalAnalysis | null => {
+  const n = commodities.length;
+  if (spec.machine === spec.industry || spec.machine >= n || spec.industry >= n) return null;
+
+  let lifetime = Math.max(1, Math.floor(spec.lifetime));
+
+  while (lifetime >= 1) {
+    const expanded = expandFixedCapital(commodities, matrix, { ...spec, lifetime }, outputMatrix);
+    const { prices, isValid } = calculateJointProductionPrices(
+      expanded.inputMatrix,
+      expanded.outputMatrix,
+      expanded.laborVector,
+      r,
+      w
+    );
+    if (!prices.length) return null;
+
+    const bookValues = expanded.machineAgeIndices.map(i => prices[i]);
+    const viable = bookValues.every((p, t) => t === 0 || p >= -1e-9);
+
+    if (viable || lifetime === 1) {
+      const next = (t: number) => (t + 1 < bookValues.length ? bookValues[t + 1] : 0);
+      return {
+        expanded,
+        prices: prices.slice(0, n),
+        bookValues,
+        depreciation: bookValues.map((p, t) => p - next(t)),
+        annualCharges: bookValues.map((p, t) => (1 + r) * p - next(t)),
+        economicLifetime: lifetime,
+        isValid
+      };
+    }
+
+    lifetime -= 1;
+  }
+
+  return null;
+};
@@ -0,0 +1,63 @@
+import { Fraction } from '../types';
+
+const absBig = (a: bigint): bigint => (a < 0n ? -a : a);
+
+const gcdBig = (a: bigint, b: bigint): bigint => {
+  a = absBig(a);
+  b = absBig(b);
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+};
+
+/**
+ * Builds a fraction in lowest terms with a positive denominator.
+ */
+export const fraction = (num: bigint, den: bigint = 1n): Fraction => {
+  if (den === 0n) throw new RangeError('Fraction with zero denominator');
+  const sign = den < 0n ? -1n : 1n;
+  const g = gcdBig(num, den) || 1n;
+  return { num: (sign * num) / g, den: (sign * den) / g };
+};
+
+export const ZERO: Fraction = { num: 0n, den: 1n };
+export const ONE: Fraction = { num: 1n, den: 1n };
+
+/**
+ * The decimal a number is displayed as, taken exactly: 0.15 becomes 3/20, not the
+ * nearest binary double. Returns null for NaN and infinities.
+ */
+export const fractionFromNumber = (x: number): Fraction | null => {
+  if (!Number.isFinite(x)) return null;
+  const match = x.toString().match(/^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/i);
+  if (!match) return null;
+  const [, sign, whole, decimals = '', exponent = '0'] = match;
+  let num = BigInt(whole + decimals) * (sign ? -1n : 1n);
+  let den = 10n ** BigInt(decimals.length);
+  const e = parseInt(exponent, 10);
+  if (e > 0) num *= 10n ** BigInt(e);
+  if (e < 0) den *= 10n ** BigInt(-e);
+  return fraction(num, den);
+};
+
+export const fractionAdd = (a: Fraction, b: Fraction): Fraction => fraction(a.num * b.den + b.num * a.den, a.den * b.den);
+
+export const fractionSub = (a: Fraction, b: Fraction): Fraction => fraction(a.num * b.den - b.num * a.den, a.den * b.den);
+
+export const fractionMul = (a: Fraction, b: Fraction): Fraction => fraction(a.num * b.num, a.den * b.den);
+
+export const fractionDiv = (a: Fraction, b: Fraction): Fraction => fraction(a.num * b.den, a.den * b.num);
+
+export const fractionSign = (a: Fraction): number => (a.num > 0n ? 1 : a.num < 0n ? -1 : 0);
+
+export const fractionEquals = (a: Fraction, b: Fraction): boolean => a.num === b.num && a.den === b.den;
+
+export const fractionToNumber = (a: Fraction): number => {
+  // Scale down very long numerators and denominators together before converting
+  const shift = BigInt(Math.max(0, Math.max(absBig(a.num).toString(2).length, a.den.toString(2).length) - 1000));
+  return Number(a.num >> shift) / Number(a.den >> shift);
+};
+
+export const formatFraction = (a: Fraction): string => (a.den === 1n ? a.num.toString() : `${a.num}/${a.den}`);
+
+export const fractionDot = (x: Fraction[], y: Fraction[]): Fraction =>
+  x.reduce((s, xi, i) => fractionAdd(s, fractionMul(xi, y[i] ?? ZERO)), ZERO);
@@ -0,0 +1,50 @@
+import { FrontierPoint, ProductionOptions, WageProfitFrontier } from '../types';
+import { calculateSraffianPrices } from './math';
+
+/**
+ * Traces the wage-profit frontier w(r) over 0 <= r <= R, with the price of the
+ * numeraire commodity fixed at 1, together with every relative price p_i(r).
+ * At r = R the system matrix is singular, so the last grid point is taken just below R.
+ */
+export const calculateWageProfitFrontier = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  maxProfitRate: number,
+  numeraire: number,
+  options: ProductionOptions = {},
+  steps: number = 60
+): WageProfitFrontier => {
+  const points: FrontierPoint[] = [];
+
+  for (let k = 0; k <= steps; k++) {
+    const r = k === steps ? maxProfitRate * (1 - 1e-6) : (maxProfitRate * k) / steps;
+
+    // Solve with the wage as unit, then renormalise so that p_numeraire = 1
+    const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, 1.0, options);
+    const pNum = prices[numeraire];
+    if (!prices.length || !pNum || Math.abs(pNum) < 1e-12) continue;
+
+    points.push({
+      r,
+      wage: 1 / pNum,
+      prices: prices.map(p => p / pNum)
+    });
+  }
+
+  // A relative price turns where its slope with respect to r changes sign
+  const priceTurningPoints: { commodity: number; r: number }[] = [];
+  const n = totalOutputs.length;
+  for (let i = 0; i < n; i++) {
+    if (i === numeraire) continue;
+    for (let k = 1; k < points.length - 1; k++) {
+      const before = points[k].prices[i] - points[k - 1].prices[i];
+      const after = points[k + 1].prices[i] - points[k].prices[i];
+      if (Math.abs(before) > 1e-12 && Math.abs(after) > 1e-12 && Math.sign(before) !== Math.sign(after)) {
+        priceTurningPoints.push({ commodity: i, r: points[k].r });
+      }
+    }
+  }
+
+  return { numeraire, maxProfitRate, points, priceTurningPoints };
+};
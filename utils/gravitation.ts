@@ -0,0 +1,119 @@
+import { GravitationOutcome, GravitationPoint, GravitationResult, GravitationSpec, ProductionOptions } from '../types';
+import { buildCoefficientMatrix } from './math';
+
+export const GRAVITATION_TOLERANCE = 1e-4;
+const DIVERGENCE_DISTANCE = 10; // A price or output ten times off its centre counts as divergence
+
+/**
+ * Market prices and outputs out of the long-period position, stepped forward by one of the
+ * classical adjustment rules. Final demand is the actual net product y, so outputs gravitate
+ * towards X = (I - A)^-1 y; the wage is held at w and prices are kept at the value of y they
+ * have at prices of production, which pins the average rate at r. The prices of production
+ * are then the only rest point, and the path shows whether it is reached.
+ */
+export const simulateGravitation = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  productionPrices: number[],
+  wage: number,
+  spec: GravitationSpec,
+  options: ProductionOptions = {}
+): GravitationResult | null => {
+  const n = totalOutputs.length;
+  if (productionPrices.length !== n || productionPrices.some(p => !(p > 0)) || totalOutputs.some(x => !(x > 0))) return null;
+
+  const A = buildCoefficientMatrix(physicalMatrix, totalOutputs);
+  const l = laborVector.map((L, j) => L / totalOutputs[j]);
+  const ante = options.wageClosure === 'anteFactum';
+  const finalDemand = totalOutputs.map((x, i) => x - physicalMatrix[i].reduce((s, q) => s + q, 0));
+  const valueOf = (p: number[]) => p.reduce((s, pi, i) => s + pi * finalDemand[i], 0);
+  const targetValue = valueOf(productionPrices);
+
+  const { rule, priceSpeed: beta, quantitySpeed: alpha } = spec;
+  let p = productionPrices.map((pi, i) => pi * (spec.initialPrices[i] ?? 1));
+  let x = totalOutputs.map((xi, j) => xi * (spec.initialQuantities[j] ?? 1));
+
+  const path: GravitationPoint[] = [];
+  let divergedAt: number | null = null;
+
+  for (let step = 0; step <= spec.steps; step++) {
+    const cost = A[0].map((_, j) => p.reduce((s, pi, i) => s + pi * A[i][j], 0));
+    const advanced = cost.map((c, j) => c + (ante ? wage * l[j] : 0));
+    const surplus = p.map((pj, j) => pj - cost[j] - wage * l[j]);
+    const profitRates = surplus.map((s, j) => (advanced[j] > 0 ? s / advanced[j] : 0));
+    const totalAdvanced = x.reduce((s, xj, j) => s + xj * advanced[j], 0);
+    const averageRate = totalAdvanced > 0 ? x.reduce((s, xj, j) => s + xj * surplus[j], 0) / totalAdvanced : 0;
+    const demand = A.map((row, i) => row.reduce((s, a, j) => s + a * x[j], 0) + finalDemand[i]);
+    const excess = demand.map((d, i) => (d - x[i]) / x[i]);
+
+    const prices = p.map((pi, i) => pi / productionPrices[i]);
+    const quantities = x.map((xj, j) => xj / totalOutputs[j]);
+    const distance = Math.max(...prices.map(v => Math.abs(v - 1)), ...quantities.map(v => Math.abs(v - 1)));
+    path.push({ step, prices, quantities, profitRates, averageRate, distance });
+
+    if (![...p, ...x].every(v => Number.isFinite(v) && v > 0) || distance > DIVERGENCE_DISTANCE) {
+      divergedAt = step;
+      break;
+    }
+
+    let nextP: number[];
+    let nextX: number[];
+    if (rule === 'ownDual') {
+      nextP = p.map((pj, j) => pj + beta * ((1 + averageRate) * cost[j] + wage * l[j] * (ante ? 1 + averageRate : 1) - pj));
+      nextX = x.map((xj, j) => xj + alpha * (demand[j] - xj));
+    } else {
+      const own = rule === 'damped' ? 1 : 0;
+      nextP = p.map((pi, i) => pi * (1 + beta * excess[i] - own * beta * (profitRates[i] - averageRate)));
+      nextX = x.map((xj, j) => xj * (1 + alpha * (profitRates[j] - averageRate) + own * alpha * excess[j]));
+    }
+    const scale = targetValue / valueOf(nextP);
+    p = nextP.map(pi => pi * scale);
+    x = nextX;
+  }
+
+  return { path, divergedAt, ...describePath(path, divergedAt) };
+};
+
+/**
+ * Classifies a path by the trend of its distance from the centre: the largest distance in the
+ * last quarter against the first quarter, which looks through the oscillations.
+ */
+const describePath = (
+  path: GravitationPoint[],
+  divergedAt: number | null
+): { outcome: GravitationOutcome; convergenceStep: number | null; halfLife: number | null; oscillations: number } => {
+  const n = path[0]?.prices.length ?? 0;
+  let oscillations = 0;
+  for (let i = 0; i < n; i++) {
+    let turns = 0;
+    let lastSign = 0;
+    for (let t = 1; t < path.length; t++) {
+      const change = path[t].prices[i] - path[t - 1].prices[i];
+      const sign = Math.abs(change) < 1e-12 ? 0 : Math.sign(change);
+      if (sign !== 0 && lastSign !== 0 && sign !== lastSign) turns++;
+      if (sign !== 0) lastSign = sign;
+    }
+    oscillations = Math.max(oscillations, turns);
+  }
+
+  let convergenceStep: number | null = null;
+  for (let t = path.length - 1; t >= 0 && path[t].distance < GRAVITATION_TOLERANCE; t--) convergenceStep = path[t].step;
+
+  const quarter = Math.max(1, Math.floor(path.length / 4));
+  const early = Math.max(...path.slice(0, quarter).map(pt => pt.distance));
+  const late = Math.max(...path.slice(-quarter).map(pt => pt.distance));
+  const span = path.length - quarter;
+  const slope = early > 0 && late > 0 && span > 0 ? Math.log(late / early) / span : 0;
+  const halfLife = slope < 0 ? Math.log(2) / -slope : null;
+
+  const outcome: GravitationOutcome = divergedAt !== null
+    ? 'diverged'
+    : convergenceStep !== null
+      ? 'converged'
+      : late < 0.9 * early
+        ? 'converging'
+        : late > 1.1 * early ? 'diverging' : 'cycling';
+
+  return { outcome, convergenceStep, halfLife, oscillations };
+};
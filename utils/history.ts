@@ -0,0 +1,56 @@
+import { EditHistory, SystemState } from '../types';
+
+export const HISTORY_LIMIT = 100;
+
+// Snapshot ids start at 1; 0 stands for the current state when choosing what to compare
+export const CURRENT_STATE = 0;
+
+// Edits closer together than this (a number being typed, a slider being dragged) form one step
+export const HISTORY_MERGE_MS = 800;
+
+const sameState = (a: SystemState, b: SystemState): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const createHistory = (state: SystemState): EditHistory => ({
+  past: [],
+  present: state,
+  future: [],
+  lastRecorded: 0
+});
+
+/**
+ * Records a new state as the present. A quick follow-up edit replaces the present instead of
+ * adding a step; any edit clears the redo list. States equal to the present are ignored, so
+ * restoring a state through undo or redo does not record it again.
+ */
+export const recordHistory = (history: EditHistory, state: SystemState, now: number): EditHistory => {
+  if (sameState(history.present, state)) return history;
+  if (now - history.lastRecorded < HISTORY_MERGE_MS && history.past.length > 0) {
+    return { ...history, present: state, future: [], lastRecorded: now };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: state,
+    future: [],
+    lastRecorded: now
+  };
+};
+
+export const undoHistory = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastRecorded: 0
+  };
+};
+
+export const redoHistory = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastRecorded: 0
+  };
+};
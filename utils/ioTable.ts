@@ -0,0 +1,138 @@
+import { Commodity, InputMatrix, IOImportResult, IOTable, SectorMapping } from '../types';
+
+const OUTPUT_LABEL = /^(gross output|total output|output|production)$/i;
+const LABOUR_LABEL = /^(labou?r|compensation( of employees)?|employee compensation|hours( worked)?|wages)$/i;
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells and detects the delimiter
+ * (comma, semicolon or tab) from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let k = 0; k < text.length; k++) {
+    const ch = text[k];
+    if (quoted) {
+      if (ch === '"' && text[k + 1] === '"') { cell += '"'; k++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim()); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[k + 1] === '\n') k++;
+      row.push(cell.trim()); cell = '';
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+  return rows;
+};
+
+const parseNumber = (cell: string | undefined): number => {
+  if (cell === undefined || cell === '') return 0;
+  return Number(cell.replace(/\s/g, ''));
+};
+
+/**
+ * Reads an industry-by-industry table. The header row names the sectors; each sector row holds
+ * its sales to every sector. Gross output and labour may be given either as extra columns or as
+ * extra rows, recognised by their labels ("Output", "Compensation of employees", "Hours", ...).
+ * Columns without a matching row, such as final demand, are ignored.
+ */
+export const parseIOTable = (text: string): IOImportResult => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { table: null, errors: ['The table needs a header row and at least one sector.'] };
+
+  const header = rows[0];
+  const outputCol = header.findIndex((h, k) => k > 0 && OUTPUT_LABEL.test(h));
+  const labourCol = header.findIndex((h, k) => k > 0 && LABOUR_LABEL.test(h));
+  const rowLabels = new Set(rows.slice(1).map(r => r[0]));
+  const sectorCols = header
+    .map((_, k) => k)
+    .filter(k => k > 0 && k !== outputCol && k !== labourCol && header[k] !== '' && rowLabels.has(header[k]));
+  const sectors = sectorCols.map(k => header[k]);
+
+  const rowFor = (name: string) => rows.slice(1).find(r => r[0] === name);
+  const extraRows = rows.slice(1).filter(r => !sectors.includes(r[0]));
+  const outputRow = extraRows.find(r => OUTPUT_LABEL.test(r[0] ?? ''));
+  const labourRow = extraRows.find(r => LABOUR_LABEL.test(r[0] ?? ''));
+
+  const errors: string[] = [];
+  if (sectors.length === 0) errors.push('No sector appears both in the header row and as a row label.');
+  if (outputCol === -1 && !outputRow) errors.push('No gross output column or row found.');
+  if (labourCol === -1 && !labourRow) errors.push('No compensation of employees or hours column or row found.');
+  if (errors.length > 0) return { table: null, errors };
+
+  const flows: number[][] = [];
+  const grossOutput: number[] = [];
+  const labour: number[] = [];
+
+  sectors.forEach((name, i) => {
+    const row = rowFor(name) as string[];
+    flows.push(sectorCols.map(k => parseNumber(row[k])));
+    grossOutput.push(outputCol !== -1 ? parseNumber(row[outputCol]) : parseNumber(outputRow?.[sectorCols[i]]));
+    labour.push(labourCol !== -1 ? parseNumber(row[labourCol]) : parseNumber(labourRow?.[sectorCols[i]]));
+  });
+
+  sectors.forEach((name, i) => {
+    if (flows[i].some(x => !Number.isFinite(x))) errors.push(`Sector "${name}" has a non-numeric flow.`);
+    if (!Number.isFinite(grossOutput[i]) || grossOutput[i] < 0) errors.push(`Sector "${name}" has an invalid gross output.`);
+    if (!Number.isFinite(labour[i]) || labour[i] < 0) errors.push(`Sector "${name}" has an invalid labour entry.`);
+  });
+  if (errors.length > 0) return { table: null, errors };
+
+  return { table: { sectors, flows, grossOutput, labour }, errors };
+};
+
+/**
+ * Sums sectors into aggregates. Aggregates keep the order in which they first appear;
+ * a sector missing from the mapping stays on its own.
+ */
+export const aggregateIOTable = (table: IOTable, mapping: SectorMapping): IOTable => {
+  const groupOf = table.sectors.map(s => (mapping[s]?.trim() || s));
+  const groups = Array.from(new Set(groupOf));
+  const index = groupOf.map(g => groups.indexOf(g));
+  const m = groups.length;
+
+  const flows = Array.from({ length: m }, () => new Array(m).fill(0));
+  const grossOutput = new Array(m).fill(0);
+  const labour = new Array(m).fill(0);
+
+  table.sectors.forEach((_, i) => {
+    grossOutput[index[i]] += table.grossOutput[i];
+    labour[index[i]] += table.labour[i];
+    table.sectors.forEach((_, j) => {
+      flows[index[i]][index[j]] += table.flows[i][j];
+    });
+  });
+
+  return { sectors: groups, flows, grossOutput, labour };
+};
+
+/**
+ * Turns a (possibly aggregated) table into the engine's system. Quantities are measured in
+ * base-year money units, so every price is 1 at the observed distribution.
+ */
+export const ioTableToSystem = (table: IOTable): { commodities: Commodity[]; matrix: InputMatrix } => ({
+  commodities: table.sectors.map((name, i) => ({
+    id: i + 1,
+    name,
+    totalOutput: table.grossOutput[i],
+    laborInput: table.labour[i]
+  })),
+  matrix: table.flows.map(row => [...row])
+});
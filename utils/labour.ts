@@ -0,0 +1,69 @@
+import { Commodity, LabourType } from '../types';
+
+/**
+ * Hours of each labour type reduced to a single quantity: every type counts in proportion to
+ * its relative wage, so the price equations keep one wage w paid on reduced labour.
+ */
+export const reduceLabour = (laborByType: number[], types: LabourType[]): number =>
+  types.reduce((s, t, k) => s + t.relativeWage * (laborByType[k] ?? 0), 0);
+
+/**
+ * Recomputes the reduced labour L_j of every industry from its hours by type.
+ */
+export const applyLabourTypes = (commodities: Commodity[], types: LabourType[]): Commodity[] =>
+  commodities.map(c => (c.laborByType ? { ...c, laborInput: reduceLabour(c.laborByType, types) } : c));
+
+/**
+ * Splits uniform labour into types, starting with one type paid the wage w that keeps every
+ * industry's labour.
+ */
+export const createLabourTypes = (commodities: Commodity[]): { types: LabourType[]; commodities: Commodity[] } => ({
+  types: [{ id: 1, name: 'Unskilled', relativeWage: 1 }],
+  commodities: commodities.map(c => ({ ...c, laborByType: [c.laborInput] }))
+});
+
+export const addLabourType = (
+  commodities: Commodity[],
+  types: LabourType[],
+  name: string,
+  relativeWage: number
+): { types: LabourType[]; commodities: Commodity[] } => {
+  const id = Math.max(0, ...types.map(t => t.id)) + 1;
+  return {
+    types: [...types, { id, name, relativeWage }],
+    commodities: commodities.map(c => ({ ...c, laborByType: [...(c.laborByType ?? []), 0] }))
+  };
+};
+
+/**
+ * Drops a labour type and its hours. Removing the last type returns to uniform labour, with
+ * each industry keeping its reduced labour.
+ */
+export const removeLabourType = (
+  commodities: Commodity[],
+  types: LabourType[],
+  index: number
+): { types: LabourType[] | null; commodities: Commodity[] } => {
+  if (types.length <= 1) {
+    return { types: null, commodities: commodities.map(({ laborByType, ...c }) => c) };
+  }
+  const remaining = types.filter((_, k) => k !== index);
+  const dropped = commodities.map(c => ({ ...c, laborByType: c.laborByType?.filter((_, k) => k !== index) }));
+  return { types: remaining, commodities: applyLabourTypes(dropped, remaining) };
+};
+
+/**
+ * Share of each labour type in an industry's wage bill. An industry with no hours by type
+ * counts all its labour as the first type.
+ */
+export const wageSharesByType = (commodity: Commodity, types: LabourType[]): number[] => {
+  const reduced = commodity.laborByType ? reduceLabour(commodity.laborByType, types) : 0;
+  if (reduced <= 0) return types.map((_, k) => (k === 0 ? 1 : 0));
+  return types.map((t, k) => (t.relativeWage * (commodity.laborByType?.[k] ?? 0)) / reduced);
+};
+
+/**
+ * Wage bill of each labour type at the wage w of a unit of reduced labour.
+ */
+export const calculateWageBillByType = (commodities: Commodity[], types: LabourType[], wage: number): number[] =>
+  types.map((_, k) => commodities.reduce((s, c) => s + wage * c.laborInput * wageSharesByType(c, types)[k], 0));
@@ -0,0 +1,231 @@
+import { Commodity, InputMatrix, LandAnalysis, LandCultivation, LandMethod, LandSpec } from '../types';
+import { calculateSraffianPrices } from './math';
+
+/**
+ * Cost of producing one unit of the crop with a method, at given prices, excluding rent.
+ */
+const unitCost = (method: LandMethod, prices: number[], r: number, w: number): number => {
+  const inputValue = method.inputs.reduce((s, q, i) => s + q * (prices[i] || 0), 0);
+  return ((1 + r) * inputValue + w * method.labor) / method.output;
+};
+
+/**
+ * Orders the methods of a land: the cheapest at the ruling prices is used alone; a method
+ * yielding more per acre, if any, is the one that can be introduced to intensify cultivation.
+ */
+const rankMethods = (
+  methods: LandMethod[],
+  prices: number[],
+  r: number,
+  w: number
+): [LandMethod, LandMethod | undefined] => {
+  const valid = methods.filter(m => m.output > 0);
+  const primary = valid.reduce((best, m) => (unitCost(m, prices, r, w) < unitCost(best, prices, r, w) ? m : best));
+  const secondary = valid
+    .filter(m => m.output > primary.output)
+    .sort((a, b) => unitCost(a, prices, r, w) - unitCost(b, prices, r, w))[0];
+  return [primary, secondary];
+};
+
+/**
+ * Solves the price system with the crop industry operated at the given unit coefficients
+ * (the method of the no-rent land, or the difference between two methods on the same land).
+ */
+const pricesWithCropMethod = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  crop: number,
+  unitInputs: number[],
+  unitLabor: number,
+  r: number,
+  w: number
+): { prices: number[], isValid: boolean } => {
+  const X = commodities[crop].totalOutput;
+  const physical = matrix.map((row, i) => row.map((q, j) => (j === crop ? unitInputs[i] * X : q)));
+  const laborVector = commodities.map((c, j) => (j === crop ? unitLabor * X : c.laborInput));
+  return calculateSraffianPrices(physical, laborVector, commodities.map(c => c.totalOutput), r, w);
+};
+
+/**
+ * Determines which lands are cultivated and the rent they pay (Sraffa, ch. XI).
+ *
+ * Lands are brought into cultivation in order of their unit cost at the ruling prices until the
+ * crop's total output is produced. Extensive rent: the last, partially cultivated land pays no
+ * rent and its method fixes the price of the crop. Intensive rent: when all land is fully
+ * cultivated, one land is worked with two methods side by side, and the two methods jointly
+ * determine the price and that land's rent. Since the ranking depends on prices, the allocation
+ * is repeated until the marginal land no longer changes.
+ */
+export const analyzeLand = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  spec: LandSpec,
+  r: number,
+  w: number = 1.0
+): LandAnalysis | null => {
+  const n = commodities.length;
+  const { crop } = spec;
+  if (crop >= n) return null;
+
+  const usable = spec.qualities
+    .map((q, k) => k)
+    .filter(k => spec.qualities[k].acres > 0 && spec.qualities[k].methods[0]?.output > 0);
+  if (usable.length === 0) return null;
+
+  const demand = commodities[crop].totalOutput;
+  const X = demand === 0 ? 1 : demand;
+
+  // Start from the crop method in the input table
+  let result = pricesWithCropMethod(
+    commodities,
+    matrix,
+    crop,
+    matrix.map(row => row[crop] / X),
+    commodities[crop].laborInput / X,
+    r,
+    w
+  );
+
+  let regime: 'extensive' | 'intensive' = 'extensive';
+  let marginal = -1;
+  let cultivation: LandCultivation[] = [];
+  let ranked: [LandMethod, LandMethod | undefined][] = [];
+  let isFeasible = true;
+
+  for (let iter = 0; iter <= spec.qualities.length + 1; iter++) {
+    if (!result.prices.length) return null;
+    const prices = result.prices;
+
+    cultivation = spec.qualities.map(() => ({ acresUsed: 0, intensiveShare: 0, rentPerAcre: null }));
+    ranked = spec.qualities.map(q => (q.methods.some(m => m.output > 0)
+      ? rankMethods(q.methods, prices, r, w)
+      : [q.methods[0], undefined]));
+    const order = [...usable].sort(
+      (a, b) => unitCost(ranked[a][0], prices, r, w) - unitCost(ranked[b][0], prices, r, w)
+    );
+
+    // Extensive margin
+    let remaining = demand;
+    let nextMarginal = -1;
+    for (const k of order) {
+      const { acres } = spec.qualities[k];
+      const [method] = ranked[k];
+      const capacity = acres * method.output;
+      if (remaining <= capacity) {
+        cultivation[k].acresUsed = remaining / method.output;
+        nextMarginal = k;
+        remaining = 0;
+        break;
+      }
+      cultivation[k].acresUsed = acres;
+      remaining -= capacity;
+    }
+
+    let nextRegime: 'extensive' | 'intensive' = 'extensive';
+    let unitInputs: number[];
+    let unitLabor: number;
+    isFeasible = true;
+
+    if (remaining > 0) {
+      // Intensive margin: the cheapest way of raising output on land already fully cultivated
+      const candidates = usable.filter(k => ranked[k][1] !== undefined);
+      if (candidates.length === 0) return null;
+
+      const extraCost = (k: number) => {
+        const [m1, m2] = ranked[k] as [LandMethod, LandMethod];
+        const diff: LandMethod = {
+          inputs: m2.inputs.map((q, i) => q - (m1.inputs[i] || 0)),
+          labor: m2.labor - m1.labor,
+          output: m2.output - m1.output
+        };
+        return unitCost(diff, prices, r, w);
+      };
+      nextMarginal = candidates.reduce((best, k) => (extraCost(k) < extraCost(best) ? k : best));
+      nextRegime = 'intensive';
+
+      const { acres } = spec.qualities[nextMarginal];
+      const [m1, m2] = ranked[nextMarginal] as [LandMethod, LandMethod];
+      const share = remaining / (acres * (m2.output - m1.output));
+      isFeasible = share <= 1;
+      cultivation[nextMarginal].intensiveShare = Math.min(1, share);
+
+      unitInputs = commodities.map((_, i) => ((m2.inputs[i] || 0) - (m1.inputs[i] || 0)) / (m2.output - m1.output));
+      unitLabor = (m2.labor - m1.labor) / (m2.output - m1.output);
+    } else {
+      const [m] = ranked[nextMarginal];
+      unitInputs = commodities.map((_, i) => (m.inputs[i] || 0) / m.output);
+      unitLabor = m.labor / m.output;
+    }
+
+    const stable = nextMarginal === marginal && nextRegime === regime;
+    marginal = nextMarginal;
+    regime = nextRegime;
+    result = pricesWithCropMethod(commodities, matrix, crop, unitInputs, unitLabor, r, w);
+    if (stable) break;
+  }
+
+  if (!result.prices.length) return null;
+  const prices = result.prices;
+
+  // Rent per acre: what is left of the value of the crop after paying for inputs, profits and wages
+  let totalRent = 0;
+  const cropInputs = new Array(n).fill(0);
+  let cropLabor = 0;
+
+  cultivation.forEach((c, k) => {
+    if (c.acresUsed <= 0) return;
+    const [m1, m2] = ranked[k];
+    const inputValue = m1.inputs.reduce((s, q, i) => s + q * (prices[i] || 0), 0);
+    c.rentPerAcre = prices[crop] * m1.output - (1 + r) * inputValue - w * m1.labor;
+    totalRent += c.rentPerAcre * c.acresUsed;
+
+    const s = c.intensiveShare;
+    for (let i = 0; i < n; i++) {
+      cropInputs[i] += c.acresUsed * ((1 - s) * (m1.inputs[i] || 0) + s * (m2?.inputs[i] || 0));
+    }
+    cropLabor += c.acresUsed * ((1 - s) * m1.labor + s * (m2?.labor || 0));
+  });
+
+  // A negative rent means the allocation is not a long-period position
+  const rentsNonNegative = cultivation.every(c => c.rentPerAcre === null || c.rentPerAcre > -1e-9);
+
+  return {
+    regime,
+    marginal,
+    prices,
+    isValid: result.isValid && rentsNonNegative,
+    cultivation,
+    totalRent,
+    cropInputs,
+    cropLabor,
+    isFeasible
+  };
+};
+
+/**
+ * A starting configuration derived from the crop industry in the input table: a better land
+ * able to grow half of the crop, and a worse land using the table's own method.
+ */
+export const createDefaultLandSpec = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  crop: number
+): LandSpec => {
+  const X = commodities[crop].totalOutput || 1;
+  const perUnitInputs = matrix.map(row => row[crop] / X);
+  const perUnitLabor = commodities[crop].laborInput / X;
+
+  const method = (yieldPerAcre: number, saving: number): LandMethod => ({
+    inputs: perUnitInputs.map(a => a * yieldPerAcre * saving),
+    labor: perUnitLabor * yieldPerAcre * saving,
+    output: yieldPerAcre
+  });
+
+  return {
+    crop,
+    qualities: [
+      { id: 1, name: 'Land I', acres: (0.5 * X) / 2.4, methods: [method(2.4, 0.9)] },
+      { id: 2, name: 'Land II', acres: X / 2, methods: [method(2, 1)] }
+    ]
+  };
+};
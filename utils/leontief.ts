@@ -0,0 +1,63 @@
+import { Commodity, FinalDemandAnalysis, InputMatrix } from '../types';
+import { buildCoefficientMatrix, invertMatrix } from './math';
+
+/**
+ * The Leontief inverse (I - A)^-1, from the same coefficients A_ij = Q_ij / X_j as the price
+ * system. Its column j is the gross output of every industry needed for one unit of final
+ * demand for commodity j. Returns null when I - A is singular.
+ */
+export const calculateLeontiefInverse = (physicalMatrix: number[][], totalOutputs: number[]): number[][] | null => {
+  const A = buildCoefficientMatrix(physicalMatrix, totalOutputs);
+  return invertMatrix(A.map((row, i) => row.map((a, j) => (i === j ? 1 : 0) - a)));
+};
+
+/**
+ * Gross outputs and employment required by a final-demand vector f, with the output and
+ * employment multipliers of each industry. The techniques (A and the labour coefficients) are
+ * held fixed, so outputs and employment are linear in f.
+ */
+export const analyzeFinalDemand = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  finalDemand: number[]
+): FinalDemandAnalysis | null => {
+  const totalOutputs = commodities.map(c => c.totalOutput);
+  const leontiefInverse = calculateLeontiefInverse(matrix, totalOutputs);
+  if (!leontiefInverse) return null;
+
+  const labour = commodities.map(c => (c.totalOutput === 0 ? 0 : c.laborInput / c.totalOutput));
+  const grossOutputs = leontiefInverse.map(row => row.reduce((s, v, j) => s + v * (finalDemand[j] ?? 0), 0));
+  const employment = grossOutputs.map((x, j) => labour[j] * x);
+
+  return {
+    finalDemand,
+    leontiefInverse,
+    grossOutputs,
+    employment,
+    totalEmployment: employment.reduce((s, e) => s + e, 0),
+    outputMultipliers: commodities.map((_, j) => leontiefInverse.reduce((s, row) => s + row[j], 0)),
+    employmentMultipliers: commodities.map((_, j) => leontiefInverse.reduce((s, row, i) => s + labour[i] * row[j], 0)),
+    isProductive: leontiefInverse.every(row => row.every(v => v >= -1e-9))
+  };
+};
+
+/**
+ * Rescales every industry to the given gross outputs, keeping its methods: inputs and labour
+ * change in proportion to output.
+ */
+export const rescaleSystem = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  grossOutputs: number[]
+): { commodities: Commodity[]; matrix: InputMatrix } => {
+  const factor = commodities.map((c, j) => (c.totalOutput === 0 ? 0 : grossOutputs[j] / c.totalOutput));
+  return {
+    commodities: commodities.map((c, j) => ({
+      ...c,
+      totalOutput: grossOutputs[j],
+      laborInput: c.laborInput * factor[j],
+      ...(c.laborByType ? { laborByType: c.laborByType.map(h => h * factor[j]) } : {})
+    })),
+    matrix: matrix.map(row => row.map((q, j) => q * factor[j]))
+  };
+};
@@ -1,3 +1,6 @@
+import { DatedLabourReduction, OutputMatrix, ProductionOptions } from '../types';
+import { analyzePerronFrobenius } from './spectral';
+
 
 /**
  * Solves linear system Ax = b using Gaussian elimination with partial pivoting.
@@ -46,127 +49,253 @@ export const solveLinearSystem = (A: number[][], b: number[]): number[] | null =
 };
 
 /**
- * Calculates the dominant eigenvalue of a matrix using Power Iteration.
+ * Builds the coefficient matrix A where A_ij = Q_ij / X_j
+ * (input of commodity i per unit of output of industry j).
  */
-const getDominantEigenvalue = (A: number[][]): number => {
-  const n = A.length;
-  if (n === 0) return 0;
-
-  // Start with a normalized vector
-  let v = new Array(n).fill(1.0 / Math.sqrt(n));
-  let lambda = 0;
-
-  // Iterate
-  for (let iter = 0; iter < 1000; iter++) {
-    const w = new Array(n).fill(0);
-    
-    // w = A * v
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        w[i] += A[i][j] * v[j];
-      }
+export const buildCoefficientMatrix = (
+  physicalMatrix: number[][],
+  totalOutputs: number[]
+): number[][] => {
+  const n = totalOutputs.length;
+  const A: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const Q_ij = physicalMatrix[i][j];
+      const X_j = totalOutputs[j];
+      row.push(X_j === 0 ? 0 : Q_ij / X_j);
     }
+    A.push(row);
+  }
+  return A;
+};
 
-    // Normalize
-    let norm = 0;
-    for (let i = 0; i < n; i++) norm += w[i] ** 2;
-    norm = Math.sqrt(norm);
+/**
+ * Inverts a square matrix column by column. Returns null if it is singular.
+ */
+export const invertMatrix = (M: number[][]): number[][] | null => {
+  const n = M.length;
+  const inverse: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let j = 0; j < n; j++) {
+    const e = new Array(n).fill(0);
+    e[j] = 1;
+    const column = solveLinearSystem(M, e);
+    if (!column) return null;
+    for (let i = 0; i < n; i++) inverse[i][j] = column[i];
+  }
+  return inverse;
+};
 
-    if (norm < 1e-12) return 0; // Zero matrix or similar issue
+/**
+ * Multiplies two matrices.
+ */
+export const multiplyMatrices = (X: number[][], Y: number[][]): number[][] =>
+  X.map(row => Y[0].map((_, j) => row.reduce((s, x, k) => s + x * Y[k][j], 0)));
 
-    for (let i = 0; i < n; i++) v[i] = w[i] / norm;
-  }
+/**
+ * Checks that the output matrix has one process per commodity (a square system).
+ */
+export const isSquareOutputMatrix = (outputMatrix: OutputMatrix, n: number): boolean =>
+  outputMatrix.length === n && outputMatrix.every(row => row.length === n);
 
-  // Rayleigh quotient calculation: (v^T * A * v) / (v^T * v)
-  // Since v is normalized, denominator is 1.
-  const Av = new Array(n).fill(0);
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < n; j++) {
-      Av[i] += A[i][j] * v[j];
-    }
-  }
+/**
+ * The output matrix of a system of single-product industries: B = diag(X).
+ */
+export const singleProductOutputMatrix = (totalOutputs: number[]): OutputMatrix =>
+  totalOutputs.map((X, i) => totalOutputs.map((_, j) => (i === j ? X : 0)));
 
-  lambda = 0;
-  for (let i = 0; i < n; i++) lambda += v[i] * Av[i];
+/**
+ * Extracts the square sub-matrix on the given row/column indices.
+ */
+export const selectSubmatrix = (M: number[][], indices: number[]): number[][] =>
+  indices.map(i => indices.map(j => M[i][j]));
+
+/**
+ * Perron-Frobenius root and right eigenvector of a matrix (A q = lambda q), from the full
+ * spectral analysis in utils/spectral.
+ */
+export const getPerronFrobenius = (A: number[][]): { eigenvalue: number, eigenvector: number[] } => {
+  const { eigenvalue, rightEigenvector } = analyzePerronFrobenius(A);
+  return { eigenvalue, eigenvector: rightEigenvector };
+};
+
+/**
+ * Calculates the dominant eigenvalue of a matrix.
+ */
+const getDominantEigenvalue = (A: number[][]): number => getPerronFrobenius(A).eigenvalue;
+
+/**
+ * Converts the Perron-Frobenius root of A into the Maximum Rate of Profit.
+ */
+export const maxProfitRateFromEigenvalue = (lambda: number): number => {
+  if (lambda <= 1e-9) return 100.0; // If lambda is 0, inputs are 0, R is infinite (cap at 10000%)
+  
+  return (1.0 / lambda) - 1.0;
+};
+
+/**
+ * Wage cost per unit of labour entering the price equations. With wages advanced they
+ * earn profit like the means of production, so the charge is w(1+r) rather than w.
+ */
+export const wageCharge = (w: number, r: number, options: ProductionOptions = {}): number =>
+  options.wageClosure === 'anteFactum' ? w * (1 + r) : w;
+
+/**
+ * Rate of profit earned by each of n industries: r everywhere, or f_j r with a hierarchy of
+ * profit factors.
+ */
+export const industryProfitRates = (r: number, n: number, options: ProductionOptions = {}): number[] =>
+  Array.from({ length: n }, (_, j) => r * (options.profitFactors?.[j] ?? 1));
 
-  return lambda;
+/**
+ * Maximum base rate with a hierarchy of profit rates r_j = f_j R. At w = 0,
+ * p(B - Q) = R pQD with D = diag(f), so 1/R is the dominant eigenvalue of QD(B - Q)^-1.
+ * With f = 1 this is R = 1/lambda - 1. Returns 0 when B - Q is singular.
+ */
+const hierarchyMaxProfitRate = (Q: number[][], B: number[][], factors: number[]): number => {
+  const netInverse = invertMatrix(B.map((row, i) => row.map((b, j) => b - Q[i][j])));
+  if (!netInverse) return 0;
+  const lambda = getDominantEigenvalue(multiplyMatrices(Q.map(row => row.map((q, j) => q * factors[j])), netInverse));
+  return lambda <= 1e-9 ? 100.0 : 1.0 / lambda;
 };
 
 /**
  * Calculates the Maximum Rate of Profit (R).
  * R = (1 / lambda_max) - 1, where lambda_max is the Perron-Frobenius root of A.
+ * For a reducible system, pass the basic commodities so that R is that of the basic sub-system.
+ * R is reached at w = 0, where the wage bill vanishes, so it is the same under either wage closure.
+ * With options.profitFactors, R is the base rate at which the wage vanishes.
  */
 export const calculateMaxProfitRate = (
   physicalMatrix: number[][],
-  totalOutputs: number[]
+  totalOutputs: number[],
+  basicIndices?: number[],
+  options: ProductionOptions = {}
 ): number => {
-  const n = totalOutputs.length;
-  
-  // Construct Coefficient Matrix A
-  const A: number[][] = [];
-  for (let i = 0; i < n; i++) {
-    const row: number[] = [];
-    for (let j = 0; j < n; j++) {
-      const Q_ij = physicalMatrix[i][j];
-      const X_j = totalOutputs[j];
-      row.push(X_j === 0 ? 0 : Q_ij / X_j);
+  const factors = options.profitFactors;
+  if (options.outputMatrix) {
+    if (factors) {
+      const n = physicalMatrix.length;
+      return isSquareOutputMatrix(options.outputMatrix, n) ? hierarchyMaxProfitRate(physicalMatrix, options.outputMatrix, factors) : 0;
     }
-    A.push(row);
+    return calculateJointMaxProfitRate(physicalMatrix, options.outputMatrix);
   }
 
-  const lambda = getDominantEigenvalue(A);
+  const A = buildCoefficientMatrix(physicalMatrix, totalOutputs);
+  const basic = basicIndices && basicIndices.length > 0;
+  const restricted = basic ? selectSubmatrix(A, basicIndices) : A;
+  if (factors) {
+    const restrictedFactors = basic ? basicIndices.map(j => factors[j] ?? 1) : factors;
+    return hierarchyMaxProfitRate(restricted, singleProductOutputMatrix(restricted.map(() => 1)), restrictedFactors);
+  }
+  const lambda = getDominantEigenvalue(restricted);
+  return maxProfitRateFromEigenvalue(lambda);
+};
 
-  if (lambda <= 1e-9) return 100.0; // If lambda is 0, inputs are 0, R is infinite (cap at 10000%)
-  
-  return (1.0 / lambda) - 1.0;
+/**
+ * Maximum Rate of Profit under joint production.
+ * At w = 0, pB = (1+R)pA, so 1/(1+R) is the dominant eigenvalue of B^-1 A.
+ * Returns 0 when the system is not square or B is singular.
+ */
+export const calculateJointMaxProfitRate = (
+  physicalMatrix: number[][],
+  outputMatrix: OutputMatrix
+): number => {
+  const n = physicalMatrix.length;
+  if (!isSquareOutputMatrix(outputMatrix, n)) return 0;
+
+  const B_inv = invertMatrix(outputMatrix);
+  if (!B_inv) return 0;
+
+  const lambda = getDominantEigenvalue(multiplyMatrices(B_inv, physicalMatrix));
+  return maxProfitRateFromEigenvalue(lambda);
+};
+
+/**
+ * Calculates prices of production under joint production.
+ * Equation for each process j: sum_i p_i B_ij = (1+r) sum_i p_i Q_ij + w L_j
+ * With profitFactors, process j earns (1 + f_j r) instead of (1+r).
+ * The system must be square (as many processes as commodities). Negative prices are
+ * a legitimate outcome here and are reported through isValid, not treated as errors.
+ */
+export const calculateJointProductionPrices = (
+  physicalMatrix: number[][],
+  outputMatrix: OutputMatrix,
+  laborVector: number[],
+  r: number,
+  w: number = 1.0,
+  profitFactors?: number[] | null
+): { prices: number[], isValid: boolean } => {
+  const n = physicalMatrix.length;
+  if (!isSquareOutputMatrix(outputMatrix, n)) return { prices: [], isValid: false };
+
+  const SystemMatrix: number[][] = [];
+  for (let process = 0; process < n; process++) {
+    const Multiplier = 1 + r * (profitFactors?.[process] ?? 1);
+    const matrixRow: number[] = [];
+    for (let commodity = 0; commodity < n; commodity++) {
+      matrixRow.push(outputMatrix[commodity][process] - Multiplier * physicalMatrix[commodity][process]);
+    }
+    SystemMatrix.push(matrixRow);
+  }
+
+  const prices = solveLinearSystem(SystemMatrix, laborVector.map(L => L * w));
+  if (!prices) return { prices: [], isValid: false };
+
+  return { prices, isValid: prices.every(p => p > -1e-6) };
 };
 
 /**
  * Calculates Sraffian Prices.
  * Equation: P = (1+r)AP + wL
+ * With options.outputMatrix, solves the joint-production system pB = (1+r)pA + wL instead.
+ * With options.wageClosure = 'anteFactum', wages are advanced: P = (1+r)(AP + wL).
+ * With options.profitFactors, industry j earns r_j = f_j r in place of r.
  */
 export const calculateSraffianPrices = (
   physicalMatrix: number[][],
   laborVector: number[],
   totalOutputs: number[],
   r: number,
-  w: number = 1.0
+  w: number = 1.0,
+  options: ProductionOptions = {}
 ): { prices: number[], isValid: boolean } => {
   const n = totalOutputs.length;
-  
-  // 1. Calculate Coefficient Matrix A where A_ij = Q_ij / X_j
-  const A: number[][] = [];
-  for (let i = 0; i < n; i++) {
-    const row: number[] = [];
-    for (let j = 0; j < n; j++) {
-      const Q_ij = physicalMatrix[i][j];
-      const X_j = totalOutputs[j];
-      row.push(X_j === 0 ? 0 : Q_ij / X_j);
+  const rates = industryProfitRates(r, n, options);
+
+  if (options.outputMatrix) {
+    if (options.profitFactors) {
+      // The wage charge differs by process when wages are advanced, so it goes into the labour
+      const charged = laborVector.map((L, j) => L * wageCharge(w, rates[j], options));
+      return calculateJointProductionPrices(physicalMatrix, options.outputMatrix, charged, r, 1.0, options.profitFactors);
     }
-    A.push(row);
+    return calculateJointProductionPrices(physicalMatrix, options.outputMatrix, laborVector, r, wageCharge(w, r, options));
   }
+  
+  // 1. Calculate Coefficient Matrix A where A_ij = Q_ij / X_j
+  const A = buildCoefficientMatrix(physicalMatrix, totalOutputs);
 
   // 2. Calculate Unit Labor l_j = (L_j / X_j) * w
-  // w is the nominal wage rate
+  // w is the nominal wage rate (times 1+r_j when wages are advanced)
   const l: number[] = [];
   for (let j = 0; j < n; j++) {
     const L_j = laborVector[j];
     const X_j = totalOutputs[j];
-    l.push(X_j === 0 ? 0 : (L_j / X_j) * w);
+    l.push(X_j === 0 ? 0 : (L_j / X_j) * wageCharge(w, rates[j], options));
   }
 
   // 3. Form the system [I - (1+r)A]P = l
   // Since we define A[i][j] as input of i into j, the price equation for commodity j is:
-  // p_j = (1+r) * sum(p_i * A[i][j]) + l_j
+  // p_j = (1+r_j) * sum(p_i * A[i][j]) + l_j
   
   const SystemMatrix: number[][] = [];
-  const Multiplier = 1 + r;
   
   for (let row = 0; row < n; row++) {
+      const Multiplier = 1 + rates[row];
       const matrixRow: number[] = [];
       for (let col = 0; col < n; col++) {
           // We are building equation for p_row (where 'row' is the commodity index)
-          // p_row - (1+r) * sum(A[col][row] * p_col) = l_row
+          // p_row - (1+r_row) * sum(A[col][row] * p_col) = l_row
           
           const a_input_into_row = A[col][row]; 
           
@@ -190,3 +319,66 @@ export const calculateSraffianPrices = (
 
   return { prices, isValid };
 };
+
+/**
+ * Reduces prices to dated quantities of labour (Sraffa, ch. VI).
+ * p = w l + w l A (1+r) + w l A^2 (1+r)^2 + ...
+ * The first `depth` terms are returned with their partial sums; what is left over is the
+ * "commodity residue" (1+r)^depth p A^depth, computed exactly as p minus the partial sum.
+ */
+export const calculateReductionToDatedLabour = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  r: number,
+  w: number = 1.0,
+  depth: number = 20
+): DatedLabourReduction => {
+  const n = totalOutputs.length;
+  const A = buildCoefficientMatrix(physicalMatrix, totalOutputs);
+  const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, w);
+
+  // Unit labour l_j = L_j / X_j
+  let dated = laborVector.map((L, j) => (totalOutputs[j] === 0 ? 0 : L / totalOutputs[j]));
+
+  const datedLabour: number[][] = [];
+  const terms: number[][] = [];
+  const partialSums: number[][] = [];
+  let cumulative = new Array(n).fill(0);
+
+  for (let k = 0; k < depth; k++) {
+    const factor = w * (1 + r) ** k;
+    const term = dated.map(v => v * factor);
+    cumulative = cumulative.map((s, j) => s + term[j]);
+
+    datedLabour.push(dated);
+    terms.push(term);
+    partialSums.push(cumulative);
+
+    // Labour of one period earlier: (l A^k) A
+    dated = dated.map((_, j) => dated.reduce((s, v, i) => s + v * A[i][j], 0));
+  }
+
+  const residue = prices.length ? prices.map((p, j) => p - cumulative[j]) : [];
+  const R = calculateMaxProfitRate(physicalMatrix, totalOutputs);
+
+  return { r, wage: w, depth, datedLabour, terms, partialSums, prices, residue, converges: r < R };
+};
+
+/**
+ * Value of each dated labour term as r varies from 0 to R, with the Standard commodity as
+ * numeraire so that w = 1 - r/R: L_k (1 - r/R) (1+r)^k. Each term first rises and then falls.
+ */
+export const calculateDatedTermCurves = (
+  datedLabour: number[],
+  maxProfitRate: number,
+  steps: number = 50
+): { r: number; values: number[] }[] => {
+  const curves: { r: number; values: number[] }[] = [];
+  for (let s = 0; s <= steps; s++) {
+    const r = (maxProfitRate * s) / steps;
+    const w = 1 - r / maxProfitRate;
+    curves.push({ r, values: datedLabour.map((L, k) => L * w * (1 + r) ** k) });
+  }
+  return curves;
+};
@@ -0,0 +1,75 @@
+import { Commodity, InputMatrix, NumeraireSpec, OutputMatrix, StandardSystem } from '../types';
+
+/**
+ * Physical net product of the actual system: gross output less the means of production used up.
+ */
+export const calculateNetProduct = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  outputMatrix?: OutputMatrix | null
+): number[] =>
+  commodities.map((c, i) => {
+    const gross = outputMatrix ? outputMatrix[i].reduce((s, b) => s + b, 0) : c.totalOutput;
+    const used = matrix[i].reduce((s, q) => s + q, 0);
+    return gross - used;
+  });
+
+/**
+ * The composite commodity whose value is set to 1, as physical quantities of each commodity.
+ * Returns null for a wage numeraire, or when the basket cannot be formed.
+ */
+export const getNumeraireBasket = (
+  spec: NumeraireSpec,
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  outputMatrix: OutputMatrix | null,
+  standard: StandardSystem | null
+): number[] | null => {
+  switch (spec.kind) {
+    case 'wage':
+      return null;
+    case 'commodity':
+      return commodities.map((_, i) => (i === spec.commodity ? 1 : 0));
+    case 'netProduct':
+      return calculateNetProduct(commodities, matrix, outputMatrix);
+    case 'standard':
+      return standard ? standard.netProduct : null;
+    case 'basket':
+      return commodities.map((_, i) => spec.weights[i] ?? 0);
+  }
+};
+
+/**
+ * Prices are proportional to the wage, so with prices p^ computed at w = 1 the numeraire
+ * condition p . b = 1 gives w = 1 / (p^ . b). A wage numeraire returns its own wage.
+ */
+export const resolveWage = (
+  spec: NumeraireSpec,
+  unitWagePrices: number[],
+  basket: number[] | null
+): number | null => {
+  if (spec.kind === 'wage') return spec.wage;
+  if (!basket || unitWagePrices.length === 0) return null;
+
+  const value = unitWagePrices.reduce((s, p, i) => s + p * (basket[i] || 0), 0);
+  if (Math.abs(value) < 1e-12) return null;
+  return 1 / value;
+};
+
+/**
+ * Short label for the numeraire, for display next to prices.
+ */
+export const describeNumeraire = (spec: NumeraireSpec, commodities: Commodity[]): string => {
+  switch (spec.kind) {
+    case 'wage':
+      return `Wage = ${spec.wage}`;
+    case 'commodity':
+      return `${commodities[spec.commodity]?.name ?? 'Commodity'} = 1`;
+    case 'netProduct':
+      return 'Net product = 1';
+    case 'standard':
+      return 'Standard net product = 1';
+    case 'basket':
+      return 'Custom basket = 1';
+  }
+};
@@ -0,0 +1,66 @@
+import { ProductionOptions, ProfitHierarchyAnalysis } from '../types';
+import { industryProfitRates } from './math';
+
+/**
+ * Wages, profits and capital at the given prices when industry j earns rates[j] on the value
+ * of its means of production (and on its wages when they are advanced).
+ */
+export const calculateDistribution = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  prices: number[],
+  wage: number,
+  rates: number[],
+  options: ProductionOptions = {}
+): { totalWages: number; totalProfits: number; totalCapital: number; advancedCapital: number } => {
+  let totalWages = 0;
+  let totalProfits = 0;
+  let totalCapital = 0;
+  let advancedCapital = 0;
+  laborVector.forEach((L, j) => {
+    const capital = physicalMatrix.reduce((s, row, i) => s + (prices[i] || 0) * row[j], 0);
+    const wages = wage * L;
+    const advanced = options.wageClosure === 'anteFactum' ? capital + wages : capital;
+    totalWages += wages;
+    totalCapital += capital;
+    advancedCapital += advanced;
+    totalProfits += rates[j] * advanced;
+  });
+  return { totalWages, totalProfits, totalCapital, advancedCapital };
+};
+
+/**
+ * Compares prices with a hierarchy of profit rates against prices at the uniform base rate r:
+ * which industries earn above the average rate, how far each price moves and what happens to
+ * the wage share. Both price vectors must be in the same numeraire.
+ */
+export const analyzeProfitHierarchy = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  r: number,
+  prices: number[],
+  wage: number,
+  uniformPrices: number[],
+  uniformWage: number,
+  options: ProductionOptions
+): ProfitHierarchyAnalysis => {
+  const rates = industryProfitRates(r, laborVector.length, options);
+  const actual = calculateDistribution(physicalMatrix, laborVector, prices, wage, rates, options);
+  const uniform = calculateDistribution(physicalMatrix, laborVector, uniformPrices, uniformWage, rates.map(() => r), options);
+  const wageShare = (d: typeof actual) => {
+    const net = d.totalWages + d.totalProfits;
+    return net === 0 ? 0 : (d.totalWages / net) * 100;
+  };
+
+  return {
+    rates,
+    averageRate: actual.advancedCapital === 0 ? r : actual.totalProfits / actual.advancedCapital,
+    uniformPrices,
+    priceChanges: prices.map((p, i) => {
+      const base = uniformPrices[i];
+      return base === undefined || Math.abs(base) < 1e-12 ? null : ((p - base) / base) * 100;
+    }),
+    wageShare: wageShare(actual),
+    uniformWageShare: wageShare(uniform)
+  };
+};
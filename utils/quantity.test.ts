@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMaxGrowthRate, calculateQuantitySystem } from './quantity';
+import { calculateMaxProfitRate } from './math';
+import { WHEAT_IRON } from '../test/fixtures';
+
+// Wheat and iron with silk, a non-basic that takes 90% of its own output as seed: R stays 25%
+const commodities = [...WHEAT_IRON.commodities, { id: 3, name: 'Silk', totalOutput: 100, laborInput: 5 }];
+const matrix = [
+  [280, 120, 10],
+  [12, 8, 0],
+  [0, 0, 90]
+];
+const totalOutputs = commodities.map(c => c.totalOutput);
+const laborVector = commodities.map(c => c.laborInput);
+
+describe('calculateMaxGrowthRate', () => {
+  it('equals R when every commodity is basic', () => {
+    const outputs = WHEAT_IRON.commodities.map(c => c.totalOutput);
+    expect(calculateMaxGrowthRate(WHEAT_IRON.matrix, outputs)).toBeCloseTo(0.25, 8);
+  });
+
+  it('falls below R when a non-basic reproduces itself more slowly', () => {
+    expect(calculateMaxProfitRate(matrix, totalOutputs, [0, 1])).toBeCloseTo(0.25, 8);
+    expect(calculateMaxGrowthRate(matrix, totalOutputs)).toBeCloseTo(1 / 0.9 - 1, 8);
+  });
+
+  it('bounds the feasible balanced growth paths', () => {
+    const G = calculateMaxGrowthRate(matrix, totalOutputs);
+    expect(calculateQuantitySystem(matrix, laborVector, totalOutputs, 0.1, G, null)!.isFeasible).toBe(true);
+    expect(calculateQuantitySystem(matrix, laborVector, totalOutputs, 0.2, G, null)!.isFeasible).toBe(false);
+  });
+});
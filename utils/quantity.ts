@@ -0,0 +1,85 @@
+import { CambridgeClosure, ProductionOptions, QuantitySystem, StandardSystem } from '../types';
+import { calculateMaxProfitRate, calculateSraffianPrices, singleProductOutputMatrix, solveLinearSystem, wageCharge } from './math';
+
+/**
+ * Von Neumann maximum rate of balanced growth G of the whole system: 1/lambda - 1, with lambda
+ * the dominant eigenvalue of the full matrix A (of B^-1 A under joint production). R depends on
+ * the basic sub-system only, so a non-basic that reproduces itself more slowly keeps G below R.
+ */
+export const calculateMaxGrowthRate = (
+  physicalMatrix: number[][],
+  totalOutputs: number[],
+  options: ProductionOptions = {}
+): number => calculateMaxProfitRate(physicalMatrix, totalOutputs, undefined, { outputMatrix: options.outputMatrix });
+
+/**
+ * Balanced growth at rate g: the intensities z that reproduce the means of production
+ * enlarged by 1+g and leave c for consumption, Bz = (1+g)Qz + c. The consumption basket has
+ * the composition of the actual net product and is scaled so that the actual total labour
+ * is employed. This is the dual of the price system: when every commodity is basic the maximum
+ * growth rate G is R, reached by the Standard system, and at r = g the value of consumption
+ * equals the wage charge, p.c = cLz.
+ * Returns null when B - (1+g)Q is singular.
+ */
+export const calculateQuantitySystem = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  g: number,
+  maxGrowthRate: number,
+  standard: StandardSystem | null,
+  options: ProductionOptions = {}
+): QuantitySystem | null => {
+  const B = options.outputMatrix ?? singleProductOutputMatrix(totalOutputs);
+  const Q = physicalMatrix;
+  const sum = (row: number[]) => row.reduce((s, v) => s + v, 0);
+
+  // Net product and means of production of the actual system (z = 1)
+  const used = Q.map(sum);
+  const net = B.map((row, i) => sum(row) - used[i]);
+  const composition = net.map(y => Math.max(0, y));
+
+  const M = B.map((row, i) => row.map((b, j) => b - (1 + g) * Q[i][j]));
+  const unitZ = solveLinearSystem(M, composition);
+  if (!unitZ) return null;
+
+  const totalLabor = sum(laborVector);
+  const employed = unitZ.reduce((s, z, j) => s + z * laborVector[j], 0);
+  const scale = Math.abs(employed) > 1e-12 ? totalLabor / employed : 0;
+  const activityLevels = unitZ.map(z => z * scale);
+  const consumption = composition.map(c => c * scale);
+  const grossOutput = B.map(row => row.reduce((s, b, j) => s + b * activityLevels[j], 0));
+
+  const surplusRatios = net.map((y, i) => (used[i] > 1e-12 ? y / used[i] : null));
+  const finiteRatios = surplusRatios.filter((s): s is number => s !== null);
+  const sustainableGrowthRate = finiteRatios.length ? Math.min(...finiteRatios) : maxGrowthRate;
+
+  // Duality: prices at r = g value the consumption basket at the wage bill
+  const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, g, 1.0, options);
+  const consumptionValue = prices.length ? prices.reduce((s, p, i) => s + p * consumption[i], 0) : null;
+  const wageBill = wageCharge(1.0, g, options) * activityLevels.reduce((s, z, j) => s + z * laborVector[j], 0);
+
+  return {
+    growthRate: g,
+    maxGrowthRate,
+    consumption,
+    activityLevels,
+    grossOutput,
+    isFeasible: activityLevels.every(z => z >= -1e-9),
+    surplusRatios,
+    sustainableGrowthRate,
+    standardDistance: standard ? Math.max(...standard.multipliers.map(q => Math.abs(q - 1))) : null,
+    consumptionValue,
+    wageBill
+  };
+};
+
+/**
+ * Cambridge equation: when workers spend all their wages and capitalists save a share s_c of
+ * profits, the rate of profit that finances growth at g is r = g / s_c. With s_c = 1 it is the
+ * von Neumann case r = g.
+ */
+export const cambridgeProfitRate = (g: number, savingsPropensity: number, maxProfitRate: number): CambridgeClosure => {
+  const profitRate = savingsPropensity > 0 ? g / savingsPropensity : Infinity;
+  return { savingsPropensity, profitRate, withinR: profitRate <= maxProfitRate + 1e-12 };
+};
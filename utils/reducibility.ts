@@ -0,0 +1,96 @@
+import { InputMatrix, ReducibilityAnalysis } from '../types';
+
+/**
+ * Builds the adjacency list of the input graph: an edge i -> j whenever
+ * commodity i is used as a means of production in industry j.
+ */
+export const buildInputGraph = (matrix: InputMatrix): number[][] =>
+  matrix.map(row =>
+    row.reduce<number[]>((targets, q, j) => (q > 0 ? [...targets, j] : targets), [])
+  );
+
+/**
+ * Finds the strongly connected components of a directed graph (Tarjan's algorithm).
+ */
+export const findStronglyConnectedComponents = (graph: number[][]): number[][] => {
+  const n = graph.length;
+  const index = new Array(n).fill(-1);
+  const lowLink = new Array(n).fill(0);
+  const onStack = new Array(n).fill(false);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  const visit = (v: number) => {
+    index[v] = lowLink[v] = counter++;
+    stack.push(v);
+    onStack[v] = true;
+
+    for (const w of graph[v]) {
+      if (index[w] === -1) {
+        visit(w);
+        lowLink[v] = Math.min(lowLink[v], lowLink[w]);
+      } else if (onStack[w]) {
+        lowLink[v] = Math.min(lowLink[v], index[w]);
+      }
+    }
+
+    if (lowLink[v] === index[v]) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop() as number;
+        onStack[w] = false;
+        component.push(w);
+      } while (w !== v);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (let v = 0; v < n; v++) {
+    if (index[v] === -1) visit(v);
+  }
+
+  return components;
+};
+
+/**
+ * Classifies commodities as basic or non-basic (Sraffa, par. 6).
+ * A commodity is basic if every commodity is reachable from it in the input graph.
+ * The system is reducible when the input graph has more than one strongly connected component.
+ */
+export const analyzeReducibility = (matrix: InputMatrix): ReducibilityAnalysis => {
+  const graph = buildInputGraph(matrix);
+  const n = graph.length;
+  const components = findStronglyConnectedComponents(graph);
+
+  const reaches = (source: number): boolean => {
+    const seen = new Array(n).fill(false);
+    const queue = [source];
+    seen[source] = true;
+    let count = 1;
+    while (queue.length) {
+      const v = queue.shift() as number;
+      for (const w of graph[v]) {
+        if (!seen[w]) {
+          seen[w] = true;
+          count++;
+          queue.push(w);
+        }
+      }
+    }
+    // It must also enter its own production: since every industry is reachable,
+    // it suffices that some industry's output is used by the source industry
+    return count === n && graph.some(targets => targets.includes(source));
+  };
+
+  const isBasic = graph.map((_, i) => reaches(i));
+  const basicIndices = isBasic.reduce<number[]>((acc, b, i) => (b ? [...acc, i] : acc), []);
+
+  return {
+    isReducible: components.length > 1,
+    components,
+    isBasic,
+    basicIndices
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { parseScenario } from './scenario';
+import { MAX_LIFETIME } from './fixedCapital';
+import { WHEAT_IRON } from '../test/fixtures';
+
+const state = (extra: Record<string, unknown> = {}) => ({
+  version: 1,
+  metadata: { title: '', author: '', notes: '' },
+  state: {
+    commodities: WHEAT_IRON.commodities,
+    matrix: WHEAT_IRON.matrix,
+    profitRate: WHEAT_IRON.profitRate,
+    ...extra
+  }
+});
+
+const land = (quality: Record<string, unknown>) => ({
+  landSpec: { crop: 0, qualities: [{ id: 1, name: 'A', acres: 100, methods: [{ inputs: [1, 0], labor: 1, output: 5 }], ...quality }] }
+});
+
+describe('parseScenario', () => {
+  it('accepts a valid scenario', () => {
+    const result = parseScenario(state({ fixedCapital: { machine: 1, industry: 0, lifetime: 3, efficiency: [1, 1, 1] } }));
+    expect(result.errors).toEqual([]);
+    expect(result.scenario).not.toBeNull();
+  });
+
+  it('rejects fixed capital without an efficiency for every age', () => {
+    expect(parseScenario(state({ fixedCapital: { machine: 1, industry: 0, lifetime: 3 } })).scenario).toBeNull();
+    expect(parseScenario(state({ fixedCapital: { machine: 1, industry: 0, lifetime: 3, efficiency: [1, 1] } })).scenario).toBeNull();
+    expect(parseScenario(state({ fixedCapital: { machine: 1, industry: 0, lifetime: 2, efficiency: [1, -1] } })).scenario).toBeNull();
+  });
+
+  it('caps the lifetime of a machine', () => {
+    const lifetime = MAX_LIFETIME + 1;
+    const fixedCapital = { machine: 1, industry: 0, lifetime, efficiency: new Array(lifetime).fill(1) };
+    expect(parseScenario(state({ fixedCapital })).scenario).toBeNull();
+    expect(parseScenario(state({ fixedCapital: { ...fixedCapital, lifetime: 1.5 } })).scenario).toBeNull();
+  });
+
+  it('rejects an alternative method without labour', () => {
+    const alternativeMethods = [{ id: 1, industry: 0, name: 'B', inputs: [200, 10] }];
+    expect(parseScenario(state({ alternativeMethods })).scenario).toBeNull();
+  });
+
+  it('rejects land without acres, output or labour', () => {
+    expect(parseScenario(state(land({}))).errors).toEqual([]);
+    expect(parseScenario(state(land({ acres: undefined }))).scenario).toBeNull();
+    expect(parseScenario(state(land({ methods: [{ inputs: [1, 0], labor: 1 }] }))).scenario).toBeNull();
+    expect(parseScenario(state(land({ methods: [{ inputs: [1, 0], output: 5, labor: -1 }] }))).scenario).toBeNull();
+  });
+
+  it('rejects alternative methods and land qualities without an id and a name', () => {
+    const method = { id: 1, industry: 0, name: 'B', inputs: [200, 10], laborInput: 20 };
+    expect(parseScenario(state({ alternativeMethods: [method] })).errors).toEqual([]);
+    expect(parseScenario(state({ alternativeMethods: [{ ...method, id: '1' }] })).scenario).toBeNull();
+    expect(parseScenario(state({ alternativeMethods: [{ ...method, name: undefined }] })).scenario).toBeNull();
+    expect(parseScenario(state(land({ id: null }))).scenario).toBeNull();
+    expect(parseScenario(state(land({ name: 7 }))).scenario).toBeNull();
+  });
+
+  it('rejects parts of the state that are not objects', () => {
+    expect(parseScenario({ version: 1, state: [] }).scenario).toBeNull();
+    expect(parseScenario(state({ numeraire: 'wage' })).scenario).toBeNull();
+    expect(parseScenario(state({ landSpec: [1] })).scenario).toBeNull();
+  });
+});
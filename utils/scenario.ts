@@ -0,0 +1,301 @@
+import { Scenario, ScenarioMetadata, ScenarioParseResult, SystemState } from '../types';
+import { applyLabourTypes } from './labour';
+import { MAX_LIFETIME } from './fixedCapital';
+
+export const SCENARIO_VERSION = 1;
+export const SCENARIO_URL_PARAM = 'scenario';
+
+export const EMPTY_METADATA: ScenarioMetadata = { title: '', author: '', notes: '' };
+
+/**
+ * Upgrades a raw scenario object from version n to n + 1.
+ * Version 0 is the bare, unversioned state object with a nominal wage.
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (raw) => {
+    const { wage, ...state } = raw;
+    return {
+      version: 1,
+      metadata: { ...EMPTY_METADATA },
+      state: { ...state, numeraire: { kind: 'wage', wage: typeof wage === 'number' ? wage : 1.0 } }
+    };
+  }
+};
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null && !Array.isArray(x);
+
+const isFiniteNumber = (x: unknown): x is number => typeof x === 'number' && Number.isFinite(x);
+
+const isNonNegative = (x: unknown): x is number => isFiniteNumber(x) && x >= 0;
+
+const isIndex = (x: unknown, n: number): x is number => Number.isInteger(x) && (x as number) >= 0 && (x as number) < n;
+
+// Entries of lists shown in the interface carry a numeric id, used as a key, and a name, used as a label
+const hasIdAndName = (x: Record<string, unknown>): x is Record<string, unknown> & { id: number; name: string } =>
+  isFiniteNumber(x.id) && typeof x.name === 'string';
+
+const checkVector = (v: unknown, n: number, label: string, errors: string[]) => {
+  if (!Array.isArray(v) || v.length !== n) {
+    errors.push(`${label} must have ${n} entries.`);
+  } else if (!v.every(isFiniteNumber)) {
+    errors.push(`${label} must contain only numbers.`);
+  }
+};
+
+const checkSquareMatrix = (M: unknown, n: number, label: string, errors: string[]) => {
+  if (!Array.isArray(M) || M.length !== n) {
+    errors.push(`${label} must have ${n} rows, one per commodity.`);
+    return;
+  }
+  M.forEach((row, i) => checkVector(row, n, `${label} row ${i + 1}`, errors));
+};
+
+/**
+ * Checks that every part of the state agrees with the number of commodities.
+ */
+const validateState = (state: unknown, errors: string[]) => {
+  if (!isRecord(state)) {
+    errors.push('Scenario has no system state.');
+    return;
+  }
+
+  const { commodities } = state;
+  if (!Array.isArray(commodities) || commodities.length === 0) {
+    errors.push('At least one commodity is required.');
+    return;
+  }
+  const n = commodities.length;
+
+  commodities.forEach((c: unknown, i) => {
+    if (!isRecord(c) || !hasIdAndName(c)) {
+      errors.push(`Commodity ${i + 1} needs a numeric id and a name.`);
+    } else if (!isNonNegative(c.totalOutput) || !isNonNegative(c.laborInput)) {
+      errors.push(`Commodity ${c.name}: output and labour must be non-negative numbers.`);
+    }
+  });
+
+  const { labourTypes } = state;
+  if (labourTypes !== undefined && labourTypes !== null) {
+    if (!Array.isArray(labourTypes) || labourTypes.length === 0) {
+      errors.push('Labour types must be a non-empty list.');
+    } else {
+      labourTypes.forEach((t: unknown, k) => {
+        if (!isRecord(t) || !hasIdAndName(t)) {
+          errors.push(`Labour type ${k + 1} needs a numeric id and a name.`);
+        } else if (!isNonNegative(t.relativeWage)) {
+          errors.push(`Labour type ${t.name}: the relative wage must be a non-negative number.`);
+        }
+      });
+      commodities.forEach((c: unknown, i) => {
+        const label = isRecord(c) && typeof c.name === 'string' ? c.name : `commodity ${i + 1}`;
+        const laborByType = isRecord(c) ? c.laborByType : undefined;
+        checkVector(laborByType, labourTypes.length, `Labour by type of ${label}`, errors);
+        if (Array.isArray(laborByType) && laborByType.some(h => isFiniteNumber(h) && h < 0)) {
+          errors.push(`Commodity ${label}: hours of labour must be non-negative.`);
+        }
+      });
+    }
+  }
+
+  checkSquareMatrix(state.matrix, n, 'Input matrix', errors);
+  if (state.outputMatrix !== undefined && state.outputMatrix !== null) {
+    checkSquareMatrix(state.outputMatrix, n, 'Output matrix', errors);
+  }
+
+  if (!isNonNegative(state.profitRate)) {
+    errors.push('The rate of profit must be a non-negative number.');
+  }
+
+  const { numeraire } = state;
+  if (numeraire !== undefined) {
+    if (!isRecord(numeraire)) {
+      errors.push('Unknown numeraire.');
+    } else if (numeraire.kind === 'wage') {
+      if (!isNonNegative(numeraire.wage)) errors.push('The wage must be a non-negative number.');
+    } else if (numeraire.kind === 'commodity') {
+      if (!isIndex(numeraire.commodity, n)) errors.push('The numeraire commodity does not exist.');
+    } else if (numeraire.kind === 'basket') {
+      checkVector(numeraire.weights, n, 'Numeraire basket', errors);
+    } else if (numeraire.kind !== 'netProduct' && numeraire.kind !== 'standard') {
+      errors.push('Unknown numeraire.');
+    }
+  }
+
+  const { profitFactors } = state;
+  if (profitFactors !== undefined && profitFactors !== null) {
+    checkVector(profitFactors, n, 'Profit factors', errors);
+    if (Array.isArray(profitFactors) && profitFactors.some(f => isFiniteNumber(f) && f < 0)) {
+      errors.push('Profit factors must be non-negative.');
+    }
+  }
+
+  if (state.wageClosure !== undefined && state.wageClosure !== 'postFactum' && state.wageClosure !== 'anteFactum') {
+    errors.push('Unknown wage closure.');
+  }
+
+  const { alternativeMethods } = state;
+  if (alternativeMethods !== undefined) {
+    if (!Array.isArray(alternativeMethods)) {
+      errors.push('Alternative methods must be a list.');
+    } else {
+      alternativeMethods.forEach((a: unknown, k) => {
+        if (!isRecord(a) || !hasIdAndName(a)) {
+          errors.push(`Alternative method ${k + 1} needs a numeric id and a name.`);
+        } else if (!isIndex(a.industry, n)) {
+          errors.push(`Alternative method ${a.name} refers to a missing industry.`);
+        } else {
+          checkVector(a.inputs, n, `Alternative method ${a.name} inputs`, errors);
+          if (!isNonNegative(a.laborInput)) errors.push(`Alternative method ${a.name}: labour must be a non-negative number.`);
+        }
+      });
+    }
+  }
+
+  const { fixedCapital } = state;
+  if (fixedCapital) {
+    if (!isRecord(fixedCapital)) {
+      errors.push('Fixed capital must be an object.');
+    } else {
+      if (!isIndex(fixedCapital.machine, n) || !isIndex(fixedCapital.industry, n)) {
+        errors.push('Fixed capital refers to a missing commodity.');
+      }
+      const { lifetime, efficiency } = fixedCapital;
+      if (!isFiniteNumber(lifetime) || !Number.isInteger(lifetime) || lifetime < 1 || lifetime > MAX_LIFETIME) {
+        errors.push(`The machine's lifetime must be a whole number of periods from 1 to ${MAX_LIFETIME}.`);
+      } else {
+        checkVector(efficiency, lifetime, 'Machine efficiency', errors);
+        if (Array.isArray(efficiency) && efficiency.some(e => !isNonNegative(e))) {
+          errors.push('Machine efficiency must be non-negative.');
+        }
+      }
+    }
+  }
+
+  const { technicalChange } = state;
+  if (technicalChange) {
+    if (!isRecord(technicalChange)) {
+      errors.push('Technical change must be an object.');
+    } else {
+      if (!isIndex(technicalChange.industry, n)) errors.push('Technical change refers to a missing industry.');
+      checkVector(technicalChange.inputs, n, 'New method inputs', errors);
+      if (!isNonNegative(technicalChange.laborInput)) {
+        errors.push('New method labour must be a non-negative number.');
+      }
+      if (technicalChange.wageBasket !== null && technicalChange.wageBasket !== undefined) {
+        checkVector(technicalChange.wageBasket, n, 'Real wage basket', errors);
+      }
+    }
+  }
+
+  const { landSpec } = state;
+  if (landSpec) {
+    if (!isRecord(landSpec)) {
+      errors.push('Land must be an object.');
+    } else {
+      if (!isIndex(landSpec.crop, n)) errors.push('The agricultural commodity does not exist.');
+      const { qualities } = landSpec;
+      if (!Array.isArray(qualities) || qualities.length === 0) {
+        errors.push('Land needs at least one quality.');
+      } else {
+        qualities.forEach((q: unknown, k) => {
+          if (!isRecord(q) || !hasIdAndName(q)) {
+            errors.push(`Land ${k + 1} needs a numeric id and a name.`);
+            return;
+          }
+          const label = `Land ${q.name}`;
+          if (!Array.isArray(q.methods) || q.methods.length === 0) {
+            errors.push(`${label} needs at least one method.`);
+            return;
+          }
+          if (!isNonNegative(q.acres)) errors.push(`${label}: acres must be a non-negative number.`);
+          q.methods.forEach((m: unknown, midx) => {
+            const method = isRecord(m) ? m : {};
+            checkVector(method.inputs, n, `${label} method ${midx + 1} inputs`, errors);
+            if (!isNonNegative(method.output) || !isNonNegative(method.labor)) {
+              errors.push(`${label} method ${midx + 1}: output and labour must be non-negative numbers.`);
+            }
+          });
+        });
+      }
+    }
+  }
+};
+
+/**
+ * Migrates a parsed scenario to the current schema version and validates it.
+ */
+export const parseScenario = (raw: unknown): ScenarioParseResult => {
+  if (!isRecord(raw)) return { scenario: null, errors: ['Not a scenario object.'] };
+
+  let current: Record<string, unknown> = raw;
+  let version = typeof current.version === 'number' ? current.version : 0;
+  if (version > SCENARIO_VERSION) {
+    return { scenario: null, errors: [`Scenario version ${version} is newer than this engine (${SCENARIO_VERSION}).`] };
+  }
+  while (version < SCENARIO_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return { scenario: null, errors: [`No migration from scenario version ${version}.`] };
+    current = migrate(current);
+    version = current.version as number;
+  }
+
+  const errors: string[] = [];
+  validateState(current.state, errors);
+  if (errors.length > 0) return { scenario: null, errors };
+
+  // Every field read below has been checked by validateState
+  const state = current.state as SystemState;
+  const metadata = isRecord(current.metadata) ? current.metadata : {};
+  return {
+    scenario: {
+      version,
+      metadata: {
+        title: typeof metadata.title === 'string' ? metadata.title : '',
+        author: typeof metadata.author === 'string' ? metadata.author : '',
+        notes: typeof metadata.notes === 'string' ? metadata.notes : ''
+      },
+      // Reduced labour is derived from the hours by type, so it is recomputed rather than trusted
+      state: state.labourTypes
+        ? { ...state, commodities: applyLabourTypes(state.commodities, state.labourTypes) }
+        : state
+    },
+    errors
+  };
+};
+
+export const parseScenarioJson = (text: string): ScenarioParseResult => {
+  try {
+    return parseScenario(JSON.parse(text));
+  } catch {
+    return { scenario: null, errors: ['The file is not valid JSON.'] };
+  }
+};
+
+export const createScenario = (state: SystemState, metadata: ScenarioMetadata): Scenario => ({
+  version: SCENARIO_VERSION,
+  metadata,
+  state
+});
+
+export const serializeScenario = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+/**
+ * URL-safe base64 of the compact JSON, for sharing a scenario in the location hash.
+ */
+export const encodeScenarioForUrl = (scenario: Scenario): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeScenarioFromUrl = (encoded: string): ScenarioParseResult => {
+  try {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+    return parseScenarioJson(new TextDecoder().decode(bytes));
+  } catch {
+    return { scenario: null, errors: ['The shared link does not contain a readable scenario.'] };
+  }
+};
@@ -0,0 +1,94 @@
+import { PriceSensitivity, ProductionOptions, SensitivityEntry } from '../types';
+import { buildCoefficientMatrix, calculateSraffianPrices, invertMatrix, wageCharge } from './math';
+
+/**
+ * Analytic derivatives of the prices of production with respect to every input coefficient,
+ * every labour coefficient and r. Writing the price system as pM = c l, with M = I - (1+r)A
+ * (B - (1+r)Q under joint production, where the coefficients are the quantities per process)
+ * and c the wage charge, each derivative is one row of N = M^-1:
+ *   dp/da_ij = (1+r) p_i N_j.,   dp/dl_j = c N_j.,   dp/dr = (pA + (dc/dr) l) N.
+ * These hold at a given wage. With a basket numeraire b (p . b = 1) the wage adjusts, and each
+ * derivative d becomes d - p (d . b); the basket itself is held fixed.
+ * Returns null when the price system is singular or the basket is worth nothing.
+ */
+export const analyzePriceSensitivity = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  r: number,
+  w: number,
+  options: ProductionOptions = {},
+  numeraireBasket: number[] | null = null
+): PriceSensitivity | null => {
+  const n = totalOutputs.length;
+  const outputMatrix = options.outputMatrix ?? null;
+  const coefficients = outputMatrix ? physicalMatrix : buildCoefficientMatrix(physicalMatrix, totalOutputs);
+  const labour = outputMatrix ? laborVector : laborVector.map((L, j) => (totalOutputs[j] === 0 ? 0 : L / totalOutputs[j]));
+
+  const M = coefficients.map((row, i) =>
+    row.map((a, j) => (outputMatrix ? outputMatrix[i][j] : i === j ? 1 : 0) - (1 + r) * a)
+  );
+  const N = invertMatrix(M);
+  if (!N) return null;
+
+  // With a basket numeraire the wage is whatever makes p . b = 1, so the given w is ignored
+  const unitWagePrices = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, 1.0, options).prices;
+  if (!unitWagePrices.length) return null;
+  const basketValue = numeraireBasket ? unitWagePrices.reduce((s, p, k) => s + p * (numeraireBasket[k] ?? 0), 0) : 1;
+  if (Math.abs(basketValue) < 1e-12) return null;
+  const wage = numeraireBasket ? 1 / basketValue : w;
+  const prices = unitWagePrices.map(p => p * wage);
+  const charge = wageCharge(wage, r, options);
+  const chargeSlope = options.wageClosure === 'anteFactum' ? wage : 0;
+
+  // Derivative of the whole price vector when the coefficient in equation j moves by one unit of z
+  const alongRow = (j: number, z: number): number[] => N[j].map(v => z * v);
+  const normalise = (d: number[]): number[] => {
+    if (!numeraireBasket) return d;
+    const shift = d.reduce((s, v, m) => s + v * (numeraireBasket[m] ?? 0), 0);
+    return d.map((v, k) => v - prices[k] * shift);
+  };
+
+  // [i][j] -> derivative vector over k
+  const byCell = coefficients.map((row, i) => row.map((_, j) => normalise(alongRow(j, (1 + r) * prices[i]))));
+  const byLabour = labour.map((_, j) => normalise(alongRow(j, charge)));
+  const pushR = coefficients[0].map((_, j) => coefficients.reduce((s, row, i) => s + prices[i] * row[j], 0) + chargeSlope * labour[j]);
+  const byR = normalise(prices.map((_, k) => pushR.reduce((s, v, j) => s + v * N[j][k], 0)));
+
+  const elasticity = (d: number, x: number, k: number) => (Math.abs(prices[k]) < 1e-12 ? 0 : (d * x) / prices[k]);
+  const range = Array.from({ length: n }, (_, k) => k);
+
+  const inputDerivatives = range.map(k => byCell.map(row => row.map(d => d[k])));
+  const laborDerivatives = range.map(k => byLabour.map(d => d[k]));
+
+  return {
+    prices,
+    inputDerivatives,
+    laborDerivatives,
+    profitRateDerivatives: byR,
+    inputElasticities: inputDerivatives.map((D, k) => D.map((row, i) => row.map((d, j) => elasticity(d, coefficients[i][j], k)))),
+    laborElasticities: laborDerivatives.map((D, k) => D.map((d, j) => elasticity(d, labour[j], k))),
+    profitRateElasticities: byR.map((d, k) => elasticity(d, r, k))
+  };
+};
+
+/**
+ * Every coefficient ranked by the absolute elasticity of one commodity's price.
+ */
+export const rankPriceSensitivities = (sensitivity: PriceSensitivity, commodity: number): SensitivityEntry[] => {
+  const entries: SensitivityEntry[] = [];
+  sensitivity.inputElasticities[commodity]?.forEach((row, i) => row.forEach((elasticity, j) => {
+    entries.push({ kind: 'input', input: i, industry: j, derivative: sensitivity.inputDerivatives[commodity][i][j], elasticity });
+  }));
+  sensitivity.laborElasticities[commodity]?.forEach((elasticity, j) => {
+    entries.push({ kind: 'labor', input: null, industry: j, derivative: sensitivity.laborDerivatives[commodity][j], elasticity });
+  });
+  entries.push({
+    kind: 'profitRate',
+    input: null,
+    industry: null,
+    derivative: sensitivity.profitRateDerivatives[commodity] ?? 0,
+    elasticity: sensitivity.profitRateElasticities[commodity] ?? 0
+  });
+  return entries.sort((a, b) => Math.abs(b.elasticity) - Math.abs(a.elasticity));
+};
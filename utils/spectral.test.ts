@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerronFrobenius, calculateSpectrum } from './spectral';
+import { buildCoefficientMatrix } from './math';
+
+// Sraffa's iron, coal and wheat system (PCMC §25): R = 20%, so the Perron root of A is 1/1.2
+const SRAFFA_INPUTS = [
+  [90, 50, 40],
+  [120, 125, 40],
+  [60, 150, 200]
+];
+const SRAFFA_OUTPUTS = [180, 450, 480];
+
+const moduli = (values: { re: number; im: number }[]) => values.map(v => Math.hypot(v.re, v.im));
+
+describe('calculateSpectrum', () => {
+  it('finds the roots of unity of a 3-cycle, with a complex pair', () => {
+    const { values, converged } = calculateSpectrum([[0, 1, 0], [0, 0, 1], [1, 0, 0]]);
+    expect(converged).toBe(true);
+    expect(values).toHaveLength(3);
+    moduli(values).forEach(m => expect(m).toBeCloseTo(1, 8));
+    const complex = values.filter(v => Math.abs(v.im) > 1e-8);
+    expect(complex).toHaveLength(2);
+    expect(complex[0].re).toBeCloseTo(-0.5, 8);
+    expect(complex[0].im + complex[1].im).toBeCloseTo(0, 8);
+    expect(Math.abs(complex[0].im)).toBeCloseTo(Math.sqrt(3) / 2, 8);
+  });
+
+  it('finds the purely imaginary pair of a rotation', () => {
+    const { values } = calculateSpectrum([[0, -1], [1, 0]]);
+    expect(values).toHaveLength(2);
+    values.forEach(v => {
+      expect(v.re).toBeCloseTo(0, 8);
+      expect(Math.abs(v.im)).toBeCloseTo(1, 8);
+    });
+  });
+
+  it('returns the eigenvalues of Sraffa\'s system by decreasing modulus', () => {
+    const { values, converged } = calculateSpectrum(buildCoefficientMatrix(SRAFFA_INPUTS, SRAFFA_OUTPUTS));
+    expect(converged).toBe(true);
+    expect(values[0].re).toBeCloseTo(1 / 1.2, 10);
+    expect(values[0].im).toBe(0);
+    const m = moduli(values);
+    m.slice(1).forEach((x, k) => expect(x).toBeLessThanOrEqual(m[k] + 1e-12));
+  });
+});
+
+describe('analyzePerronFrobenius', () => {
+  it('recognises the 2-cycle permutation as irreducible with period 2', () => {
+    const pf = analyzePerronFrobenius([[0, 1], [1, 0]]);
+    expect(pf.eigenvalue).toBeCloseTo(1, 10);
+    expect(pf.isIrreducible).toBe(true);
+    expect(pf.isPrimitive).toBe(false);
+    expect(pf.period).toBe(2);
+    expect(pf.diagnostics.peripheralCount).toBe(2);
+    pf.rightEigenvector.forEach(x => expect(x).toBeCloseTo(0.5, 8));
+  });
+
+  it('recognises the 3-cycle permutation as irreducible with period 3', () => {
+    const pf = analyzePerronFrobenius([[0, 1, 0], [0, 0, 1], [1, 0, 0]]);
+    expect(pf.eigenvalue).toBeCloseTo(1, 10);
+    expect(pf.period).toBe(3);
+    expect(pf.diagnostics.peripheralCount).toBe(3);
+    expect(pf.spectrum.filter(v => Math.abs(v.im) > 1e-8)).toHaveLength(2);
+  });
+
+  it('reports no real root for a rotation', () => {
+    const pf = analyzePerronFrobenius([[0, -1], [1, 0]]);
+    expect(pf.isNonNegative).toBe(false);
+    expect(pf.diagnostics.converged).toBe(false);
+  });
+
+  it('treats a diagonal matrix as reducible', () => {
+    const pf = analyzePerronFrobenius([[0.5, 0], [0, 0.5]]);
+    expect(pf.eigenvalue).toBeCloseTo(0.5, 10);
+    expect(pf.isIrreducible).toBe(false);
+    expect(pf.isPrimitive).toBe(false);
+    expect(pf.period).toBeNull();
+  });
+
+  it('gives the Perron root 1/(1+R) with R = 20% for Sraffa\'s system', () => {
+    const A = buildCoefficientMatrix(SRAFFA_INPUTS, SRAFFA_OUTPUTS);
+    const pf = analyzePerronFrobenius(A);
+    expect(pf.eigenvalue).toBeCloseTo(1 / 1.2, 10);
+    expect(1 / pf.eigenvalue - 1).toBeCloseTo(0.2, 10);
+    expect(pf.isPrimitive).toBe(true);
+    expect(pf.period).toBe(1);
+    expect(pf.diagnostics.converged).toBe(true);
+    expect(pf.diagnostics.residual).toBeLessThan(1e-10);
+    pf.rightEigenvector.forEach(x => expect(x).toBeGreaterThan(0));
+    pf.leftEigenvector.forEach(x => expect(x).toBeGreaterThan(0));
+  });
+});
@@ -0,0 +1,370 @@
+import { ComplexNumber, PerronFrobeniusAnalysis } from '../types';
+import { buildInputGraph, findStronglyConnectedComponents } from './reducibility';
+
+const EPS = Number.EPSILON;
+const MAX_QR_ITERATIONS = 60; // Per eigenvalue
+const MAX_INVERSE_ITERATIONS = 50;
+
+/**
+ * Reduces a copy of A to upper Hessenberg form by stabilised elementary similarity
+ * transformations. The copy is 1-indexed, as in the classical EISPACK formulation.
+ */
+const toHessenberg = (A: number[][]): number[][] => {
+  const n = A.length;
+  const a = [new Array(n + 1).fill(0), ...A.map(row => [0, ...row])];
+
+  for (let m = 2; m < n; m++) {
+    let x = 0;
+    let i = m;
+    for (let j = m; j <= n; j++) {
+      if (Math.abs(a[j][m - 1]) > Math.abs(x)) {
+        x = a[j][m - 1];
+        i = j;
+      }
+    }
+    if (i !== m) {
+      for (let j = m - 1; j <= n; j++) [a[i][j], a[m][j]] = [a[m][j], a[i][j]];
+      for (let j = 1; j <= n; j++) [a[j][i], a[j][m]] = [a[j][m], a[j][i]];
+    }
+    if (x !== 0) {
+      for (let i2 = m + 1; i2 <= n; i2++) {
+        let y = a[i2][m - 1];
+        if (y !== 0) {
+          y /= x;
+          a[i2][m - 1] = y;
+          for (let j = m; j <= n; j++) a[i2][j] -= y * a[m][j];
+          for (let j = 1; j <= n; j++) a[j][m] += y * a[j][i2];
+        }
+      }
+    }
+  }
+
+  // Clear the multipliers left below the subdiagonal
+  for (let i = 3; i <= n; i++) {
+    for (let j = 1; j <= i - 2; j++) a[i][j] = 0;
+  }
+  return a;
+};
+
+const withSign = (a: number, b: number): number => (b >= 0 ? Math.abs(a) : -Math.abs(a));
+
+/**
+ * All eigenvalues of a real matrix, by the shifted QR algorithm (Francis double shift)
+ * on its Hessenberg form. Complex eigenvalues come in conjugate pairs. When an eigenvalue
+ * fails to converge, the ones found so far are returned with converged = false.
+ */
+export const calculateSpectrum = (A: number[][]): { values: ComplexNumber[]; converged: boolean } => {
+  const n = A.length;
+  if (n === 0) return { values: [], converged: true };
+
+  const a = toHessenberg(A);
+  const wr = new Array(n + 1).fill(NaN);
+  const wi = new Array(n + 1).fill(0);
+
+  let anorm = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = Math.max(i - 1, 1); j <= n; j++) anorm += Math.abs(a[i][j]);
+  }
+
+  let nn = n;
+  let t = 0;
+  let converged = true;
+  let p = 0, q = 0, r = 0, s = 0, w = 0, x = 0, y = 0, z = 0;
+
+  outer:
+  while (nn >= 1) {
+    let its = 0;
+    let l: number;
+    do {
+      // Look for a single small subdiagonal element to split the matrix
+      for (l = nn; l >= 2; l--) {
+        s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+        if (s === 0) s = anorm;
+        if (Math.abs(a[l][l - 1]) <= EPS * s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+      x = a[nn][nn];
+      if (l === nn) {
+        // One root found
+        wr[nn] = x + t;
+        wi[nn--] = 0;
+      } else {
+        y = a[nn - 1][nn - 1];
+        w = a[nn][nn - 1] * a[nn - 1][nn];
+        if (l === nn - 1) {
+          // Two roots found
+          p = 0.5 * (y - x);
+          q = p * p + w;
+          z = Math.sqrt(Math.abs(q));
+          x += t;
+          if (q >= 0) {
+            z = p + withSign(z, p);
+            wr[nn - 1] = wr[nn] = x + z;
+            if (z !== 0) wr[nn] = x - w / z;
+            wi[nn - 1] = wi[nn] = 0;
+          } else {
+            wr[nn - 1] = wr[nn] = x + p;
+            wi[nn - 1] = -(wi[nn] = z);
+          }
+          nn -= 2;
+        } else {
+          if (its === MAX_QR_ITERATIONS) {
+            converged = false;
+            break outer;
+          }
+          if (its === 10 || its === 20) {
+            // Exceptional shift
+            t += x;
+            for (let i = 1; i <= nn; i++) a[i][i] -= x;
+            s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+            y = x = 0.75 * s;
+            w = -0.4375 * s * s;
+          }
+          ++its;
+
+          // Form the shift and look for two consecutive small subdiagonal elements
+          let m: number;
+          for (m = nn - 2; m >= l; m--) {
+            z = a[m][m];
+            r = x - z;
+            s = y - z;
+            p = (r * s - w) / a[m + 1][m] + a[m][m + 1];
+            q = a[m + 1][m + 1] - z - r - s;
+            r = a[m + 2][m + 1];
+            s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+            p /= s;
+            q /= s;
+            r /= s;
+            if (m === l) break;
+            const u = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+            const v = Math.abs(p) * (Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+            if (u <= EPS * v) break;
+          }
+          for (let i = m + 2; i <= nn; i++) {
+            a[i][i - 2] = 0;
+            if (i !== m + 2) a[i][i - 3] = 0;
+          }
+
+          // Double QR step on rows l..nn and columns m..nn
+          for (let k = m; k <= nn - 1; k++) {
+            if (k !== m) {
+              p = a[k][k - 1];
+              q = a[k + 1][k - 1];
+              r = 0;
+              if (k !== nn - 1) r = a[k + 2][k - 1];
+              x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+              if (x !== 0) {
+                p /= x;
+                q /= x;
+                r /= x;
+              }
+            }
+            s = withSign(Math.sqrt(p * p + q * q + r * r), p);
+            if (s !== 0) {
+              if (k === m) {
+                if (l !== m) a[k][k - 1] = -a[k][k - 1];
+              } else {
+                a[k][k - 1] = -s * x;
+              }
+              p += s;
+              x = p / s;
+              y = q / s;
+              z = r / s;
+              q /= p;
+              r /= p;
+              for (let j = k; j <= nn; j++) {
+                p = a[k][j] + q * a[k + 1][j];
+                if (k !== nn - 1) {
+                  p += r * a[k + 2][j];
+                  a[k + 2][j] -= p * z;
+                }
+                a[k + 1][j] -= p * y;
+                a[k][j] -= p * x;
+              }
+              const mmin = nn < k + 3 ? nn : k + 3;
+              for (let i = l; i <= mmin; i++) {
+                p = x * a[i][k] + y * a[i][k + 1];
+                if (k !== nn - 1) {
+                  p += z * a[i][k + 2];
+                  a[i][k + 2] -= p * r;
+                }
+                a[i][k + 1] -= p * q;
+                a[i][k] -= p;
+              }
+            }
+          }
+        }
+      }
+    } while (l < nn - 1);
+  }
+
+  const values: ComplexNumber[] = [];
+  for (let i = 1; i <= n; i++) {
+    if (!Number.isNaN(wr[i])) values.push({ re: wr[i], im: wi[i] });
+  }
+  values.sort((u, v) => Math.hypot(v.re, v.im) - Math.hypot(u.re, u.im) || v.re - u.re);
+  return { values, converged };
+};
+
+/**
+ * Null vector of M - mu I by inverse iteration. The shifted matrix is factorised once
+ * (LU with partial pivoting); a vanishing pivot is replaced by a tiny one, which is exactly
+ * what makes the iteration converge in one or two steps when mu is an eigenvalue.
+ */
+const inverseIteration = (
+  M: number[][],
+  mu: number
+): { vector: number[]; iterations: number; converged: boolean } => {
+  const n = M.length;
+  const scale = Math.max(1, ...M.map(row => row.reduce((s, v) => s + Math.abs(v), 0)));
+  const tiny = EPS * scale;
+  const lu = M.map((row, i) => row.map((v, j) => (i === j ? v - mu : v)));
+  const perm = M.map((_, i) => i);
+
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(lu[i][k]) > Math.abs(lu[pivot][k])) pivot = i;
+    }
+    [lu[k], lu[pivot]] = [lu[pivot], lu[k]];
+    [perm[k], perm[pivot]] = [perm[pivot], perm[k]];
+    if (Math.abs(lu[k][k]) < tiny) lu[k][k] = lu[k][k] < 0 ? -tiny : tiny;
+    for (let i = k + 1; i < n; i++) {
+      const f = lu[i][k] / lu[k][k];
+      lu[i][k] = f;
+      for (let j = k + 1; j < n; j++) lu[i][j] -= f * lu[k][j];
+    }
+  }
+
+  const solve = (b: number[]): number[] => {
+    const y = perm.map(i => b[i]);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < i; j++) y[i] -= lu[i][j] * y[j];
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = i + 1; j < n; j++) y[i] -= lu[i][j] * y[j];
+      y[i] /= lu[i][i];
+    }
+    return y;
+  };
+
+  // The Perron vector is taken with a non-negative sum; then unit length
+  const normalise = (v: number[]): number[] => {
+    const sign = v.reduce((s, x) => s + x, 0) < 0 ? -1 : 1;
+    const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+    return norm > 0 && Number.isFinite(norm) ? v.map(x => (sign * x) / norm) : v.map(() => 0);
+  };
+
+  let v = normalise(new Array(n).fill(1));
+  for (let iter = 1; iter <= MAX_INVERSE_ITERATIONS; iter++) {
+    const next = normalise(solve(v));
+    const change = Math.max(...next.map((x, i) => Math.abs(x - v[i])));
+    v = next;
+    if (change < 1e-12) return { vector: v, iterations: iter, converged: true };
+  }
+  return { vector: v, iterations: MAX_INVERSE_ITERATIONS, converged: false };
+};
+
+const residualOf = (M: number[][], x: number[], lambda: number): number => {
+  const norm = Math.max(...x.map(Math.abs));
+  if (norm === 0) return Infinity;
+  const r = M.map((row, i) => row.reduce((s, m, j) => s + m * x[j], 0) - lambda * x[i]);
+  return Math.max(...r.map(Math.abs)) / norm;
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Index of imprimitivity of an irreducible matrix: the gcd of the lengths of all cycles of
+ * its graph, found from breadth-first levels as the gcd of level[i] + 1 - level[j] over edges.
+ */
+const imprimitivityIndex = (graph: number[][]): number | null => {
+  const level = new Array(graph.length).fill(-1);
+  level[0] = 0;
+  const queue = [0];
+  while (queue.length > 0) {
+    const i = queue.shift() as number;
+    for (const j of graph[i]) {
+      if (level[j] === -1) {
+        level[j] = level[i] + 1;
+        queue.push(j);
+      }
+    }
+  }
+  let period = 0;
+  graph.forEach((targets, i) => targets.forEach(j => {
+    period = gcd(period, Math.abs(level[i] + 1 - level[j]));
+  }));
+  return period === 0 ? null : period;
+};
+
+/**
+ * Perron-Frobenius analysis of a square matrix: the dominant real eigenvalue with its right and
+ * left eigenvectors, the full spectrum, and the structure that decides what the theorem
+ * guarantees. For a non-negative matrix the Perron root is the spectral radius; it is simple
+ * with positive eigenvectors when A is irreducible, and strictly dominant only when A is also
+ * primitive (period 1). Otherwise several eigenvalues share the modulus of the root
+ * (peripheralCount > 1), which is where plain power iteration fails to converge.
+ */
+export const analyzePerronFrobenius = (A: number[][]): PerronFrobeniusAnalysis => {
+  const n = A.length;
+  const isNonNegative = A.every(row => row.every(v => v >= 0));
+  const graph = buildInputGraph(A.map(row => row.map(Math.abs)));
+  const isIrreducible = n > 0 && findStronglyConnectedComponents(graph).length === 1 && (n > 1 || A[0][0] !== 0);
+  const period = isIrreducible ? imprimitivityIndex(graph) : null;
+
+  if (n === 0) {
+    return {
+      eigenvalue: 0, rightEigenvector: [], leftEigenvector: [], spectrum: [],
+      isNonNegative, isIrreducible, isPrimitive: false, period,
+      diagnostics: { iterations: 0, converged: true, residual: 0, leftResidual: 0, spectralGap: 0, peripheralCount: 0 }
+    };
+  }
+
+  const { values: spectrum, converged: spectrumConverged } = calculateSpectrum(A);
+  const radius = spectrum.length > 0 ? Math.hypot(spectrum[0].re, spectrum[0].im) : 0;
+  const tol = 1e-8 * Math.max(1, radius);
+
+  // The dominant real eigenvalue; for a non-negative matrix this is the spectral radius
+  const real = spectrum.filter(v => Math.abs(v.im) <= tol);
+  const root = real.reduce<ComplexNumber | null>((best, v) =>
+    !best || Math.abs(v.re) > Math.abs(best.re) + tol || (Math.abs(Math.abs(v.re) - Math.abs(best.re)) <= tol && v.re > best.re) ? v : best,
+    null
+  );
+  const eigenvalue = root ? root.re : 0;
+
+  const right = inverseIteration(A, eigenvalue);
+  const transposed = A[0].map((_, j) => A.map(row => row[j]));
+  const left = inverseIteration(transposed, eigenvalue);
+
+  const toSimplex = (v: number[]) => {
+    const sum = v.reduce((s, x) => s + x, 0);
+    return Math.abs(sum) > 1e-12 ? v.map(x => x / sum) : v;
+  };
+
+  const peripheralCount = spectrum.filter(v => Math.hypot(v.re, v.im) >= radius - tol).length;
+  const rootIndex = root ? spectrum.indexOf(root) : -1;
+  const second = spectrum.filter((_, k) => k !== rootIndex)[0];
+  const spectralGap = radius > 0 && second ? 1 - Math.hypot(second.re, second.im) / radius : 1;
+
+  return {
+    eigenvalue,
+    rightEigenvector: toSimplex(right.vector),
+    leftEigenvector: toSimplex(left.vector),
+    spectrum,
+    isNonNegative,
+    isIrreducible,
+    isPrimitive: isNonNegative && isIrreducible && period === 1,
+    period,
+    diagnostics: {
+      iterations: right.iterations,
+      converged: spectrumConverged && root !== null && right.converged && left.converged,
+      residual: residualOf(A, right.vector, eigenvalue),
+      leftResidual: residualOf(transposed, left.vector, eigenvalue),
+      spectralGap,
+      peripheralCount
+    }
+  };
+};
@@ -0,0 +1,133 @@
+import { ProductionOptions, StandardSystem, StandardWageCheck } from '../types';
+import {
+  buildCoefficientMatrix,
+  calculateSraffianPrices,
+  getPerronFrobenius,
+  invertMatrix,
+  isSquareOutputMatrix,
+  maxProfitRateFromEigenvalue,
+  multiplyMatrices,
+  selectSubmatrix,
+  singleProductOutputMatrix,
+  wageCharge
+} from './math';
+
+/**
+ * Constructs Sraffa's Standard system.
+ *
+ * With A stored as rows = inputs, columns = industries, the Standard proportions are the
+ * Perron-Frobenius eigenvector q of A q = lambda q (the left eigenvector in Sraffa's
+ * process-by-commodity orientation). Each industry j is then scaled by q_j / X_j, normalised
+ * so that the Standard system employs the same total labour as the actual one.
+ * In a reducible system only the basic industries (basicIndices) enter the Standard system.
+ *
+ * Under joint production the multipliers apply to processes and solve B^-1 Q y = y / (1+R);
+ * as Sraffa notes (par. 63), some of them may then be negative.
+ */
+export const calculateStandardSystem = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  basicIndices?: number[],
+  options: ProductionOptions = {}
+): StandardSystem | null => {
+  const n = totalOutputs.length;
+  if (n === 0) return null;
+
+  const totalLabor = laborVector.reduce((s, l) => s + l, 0);
+
+  let raw: number[];
+  let eigenvalue: number;
+
+  if (options.outputMatrix) {
+    if (!isSquareOutputMatrix(options.outputMatrix, n)) return null;
+    const B_inv = invertMatrix(options.outputMatrix);
+    if (!B_inv) return null;
+
+    const pf = getPerronFrobenius(multiplyMatrices(B_inv, physicalMatrix));
+    eigenvalue = pf.eigenvalue;
+    raw = pf.eigenvector;
+  } else {
+    ({ raw, eigenvalue } = standardProportions(physicalMatrix, totalOutputs, basicIndices));
+  }
+  if (eigenvalue <= 1e-9 || eigenvalue >= 1) return null;
+
+  // Normalise so that the Standard system employs the actual total labour
+  const standardLabor = raw.reduce((s, q, j) => s + q * laborVector[j], 0);
+  if (totalLabor <= 0 || Math.abs(standardLabor) <= 1e-12) return null;
+
+  const multipliers = raw.map(q => (q * totalLabor) / standardLabor);
+
+  const outputMatrix = options.outputMatrix ?? singleProductOutputMatrix(totalOutputs);
+  const grossProduct = outputMatrix.map(row =>
+    row.reduce((s, B_ij, j) => s + B_ij * multipliers[j], 0)
+  );
+  const meansOfProduction = physicalMatrix.map(row =>
+    row.reduce((s, Q_ij, j) => s + Q_ij * multipliers[j], 0)
+  );
+  const netProduct = grossProduct.map((g, i) => g - meansOfProduction[i]);
+
+  return {
+    multipliers,
+    standardRatio: maxProfitRateFromEigenvalue(eigenvalue),
+    grossProduct,
+    meansOfProduction,
+    netProduct,
+    totalLabor
+  };
+};
+
+/**
+ * Standard proportions of a system of single-product industries, as (unnormalised)
+ * scale factors on the actual industries.
+ */
+const standardProportions = (
+  physicalMatrix: number[][],
+  totalOutputs: number[],
+  basicIndices?: number[]
+): { raw: number[], eigenvalue: number } => {
+  const n = totalOutputs.length;
+  const indices = basicIndices && basicIndices.length > 0 ? basicIndices : totalOutputs.map((_, i) => i);
+  const A = selectSubmatrix(buildCoefficientMatrix(physicalMatrix, totalOutputs), indices);
+  const { eigenvalue, eigenvector } = getPerronFrobenius(A);
+
+  // The Perron vector is taken non-negative; rounding can leave tiny negative entries.
+  // Non-basic industries get a zero multiplier.
+  const sign = eigenvector.reduce((s, v) => s + v, 0) < 0 ? -1 : 1;
+  const unitActivity = new Array(n).fill(0);
+  indices.forEach((i, k) => {
+    unitActivity[i] = Math.max(0, sign * eigenvector[k]);
+  });
+
+  // Scale factors applied to the actual industries
+  const raw = unitActivity.map((q, j) => (totalOutputs[j] === 0 ? 0 : q / totalOutputs[j]));
+
+  return { raw, eigenvalue };
+};
+
+/**
+ * Checks the linear wage-profit relation w = 1 - r/R when the Standard net product is the
+ * numeraire and the annual labour of the system is taken as unit (Sraffa, par. 30).
+ * With wages advanced it is w(1+r) that falls linearly, so w = (1 - r/R) / (1+r).
+ */
+export const checkStandardWageRelation = (
+  standard: StandardSystem,
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  r: number,
+  options: ProductionOptions = {}
+): StandardWageCheck | null => {
+  // Prices with the wage as unit, then re-expressed in terms of the Standard net product
+  const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, 1.0, options);
+  if (prices.length === 0) return null;
+
+  const netProductValue = prices.reduce((s, p, i) => s + p * standard.netProduct[i], 0);
+  if (Math.abs(netProductValue) < 1e-12) return null;
+
+  const wage = standard.totalLabor / netProductValue;
+  const expectedWage = (1 - r / standard.standardRatio) / wageCharge(1, r, options);
+  const deviation = wage - expectedWage;
+
+  return { r, wage, expectedWage, deviation, holds: Math.abs(deviation) < 1e-6 };
+};
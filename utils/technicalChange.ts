@@ -0,0 +1,142 @@
+import { Commodity, InputMatrix, ProductionOptions, TechnicalChangeAnalysis, TechnicalChangeSpec } from '../types';
+import { calculateMaxProfitRate, calculateSraffianPrices, wageCharge } from './math';
+import { calculateNetProduct } from './numeraire';
+import { analyzeReducibility } from './reducibility';
+import { calculateWageProfitFrontier } from './frontier';
+
+/**
+ * The real wage per unit of labour that the current wage buys, spent on the actual net
+ * product in its own proportions: b = w y / (p . y), so that p . b = w.
+ */
+export const currentWageBasket = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  prices: number[],
+  wage: number,
+  options: ProductionOptions = {}
+): number[] => {
+  const net = calculateNetProduct(commodities, matrix, options.outputMatrix ?? null).map(y => Math.max(0, y));
+  const value = net.reduce((s, y, i) => s + (prices[i] ?? 0) * y, 0);
+  if (!(value > 0)) return commodities.map(() => 0);
+  return net.map(y => (y * wage) / value);
+};
+
+/**
+ * Uniform rate of profit at which the basket b is the wage, i.e. at which prices with w = 1
+ * satisfy p . b = 1. In a productive single-product system p . b rises with r up to R, so the
+ * root is found by bisection on [0, R). Returns null when the basket costs more than a unit
+ * of labour produces even at r = 0, leaving nothing for profits.
+ */
+export const profitRateAtRealWage = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  basket: number[],
+  maxProfitRate: number,
+  options: ProductionOptions = {}
+): number | null => {
+  const basketCost = (r: number): number => {
+    const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, 1.0, options);
+    return prices.length ? prices.reduce((s, p, i) => s + p * (basket[i] ?? 0), 0) : Infinity;
+  };
+
+  if (basketCost(0) > 1) return null;
+  let lo = 0;
+  let hi = maxProfitRate * (1 - 1e-9);
+  if (basketCost(hi) <= 1) return hi;
+  for (let iter = 0; iter < 100; iter++) {
+    const mid = (lo + hi) / 2;
+    if (basketCost(mid) <= 1) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Prices at the real wage, with the numeraire commodity's price equal to 1.
+ */
+const pricesAtRealWage = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  r: number | null,
+  numeraire: number,
+  options: ProductionOptions
+): number[] => {
+  if (r === null) return [];
+  const { prices } = calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, r, 1.0, options);
+  const pNum = prices[numeraire];
+  if (!prices.length || !pNum || Math.abs(pNum) < 1e-12) return [];
+  return prices.map(p => p / pNum);
+};
+
+const capitalPerWorker = (physicalMatrix: number[][], laborVector: number[], prices: number[]): number | null => {
+  const labor = laborVector.reduce((s, l) => s + l, 0);
+  if (!prices.length || labor <= 0) return null;
+  return physicalMatrix.reduce((s, row, i) => s + prices[i] * row.reduce((t, q) => t + q, 0), 0) / labor;
+};
+
+/**
+ * Compares the system before and after a new method replaces the old one in one industry.
+ * Capitalists adopt the method if it lowers cost at the current prices, wage and r. With the
+ * real wage held at a given basket, Okishio's theorem says that the new uniform rate of
+ * profit is then no lower than the old: higher when the industry produces a basic commodity,
+ * unchanged otherwise. R and the wage-profit curves show what the change does at other wages.
+ */
+export const analyzeTechnicalChange = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  spec: TechnicalChangeSpec,
+  prices: number[],
+  wage: number,
+  r: number,
+  numeraire: number,
+  options: ProductionOptions = {}
+): TechnicalChangeAnalysis => {
+  const j = spec.industry;
+  const totalOutputs = commodities.map(c => c.totalOutput);
+  const laborBefore = commodities.map(c => c.laborInput);
+  const laborAfter = laborBefore.map((l, k) => (k === j ? spec.laborInput : l));
+  const matrixAfter = matrix.map((row, i) => row.map((q, k) => (k === j ? spec.inputs[i] ?? 0 : q)));
+
+  // Both methods produce the industry's whole output, so their costs compare directly
+  const cost = (column: number[], labor: number) =>
+    (1 + r) * column.reduce((s, q, i) => s + (prices[i] ?? 0) * q, 0) + wageCharge(wage, r, options) * labor;
+  const costOld = cost(matrix.map(row => row[j]), laborBefore[j]);
+  const costNew = cost(matrixAfter.map(row => row[j]), laborAfter[j]);
+  const costReducing = costNew < costOld - 1e-9 * Math.abs(costOld);
+
+  // R of a reducible system is that of its basic sub-system
+  const reducibilityBefore = options.outputMatrix ? null : analyzeReducibility(matrix);
+  const reducibilityAfter = options.outputMatrix ? null : analyzeReducibility(matrixAfter);
+  const maxProfitRateBefore = calculateMaxProfitRate(matrix, totalOutputs, reducibilityBefore?.basicIndices, options);
+  const maxProfitRateAfter = calculateMaxProfitRate(matrixAfter, totalOutputs, reducibilityAfter?.basicIndices, options);
+
+  const wageBasket = spec.wageBasket ?? currentWageBasket(commodities, matrix, prices, wage, options);
+  const profitRateBefore = profitRateAtRealWage(matrix, laborBefore, totalOutputs, wageBasket, maxProfitRateBefore, options);
+  const profitRateAfter = profitRateAtRealWage(matrixAfter, laborAfter, totalOutputs, wageBasket, maxProfitRateAfter, options);
+
+  const pricesBefore = pricesAtRealWage(matrix, laborBefore, totalOutputs, profitRateBefore, numeraire, options);
+  const pricesAfter = pricesAtRealWage(matrixAfter, laborAfter, totalOutputs, profitRateAfter, numeraire, options);
+
+  return {
+    wageBasket,
+    costOld,
+    costNew,
+    costReducing,
+    isBasic: reducibilityAfter ? reducibilityAfter.isBasic[j] : null,
+    maxProfitRateBefore,
+    maxProfitRateAfter,
+    profitRateBefore,
+    profitRateAfter,
+    pricesBefore,
+    pricesAfter,
+    capitalPerWorkerBefore: capitalPerWorker(matrix, laborBefore, pricesBefore),
+    capitalPerWorkerAfter: capitalPerWorker(matrixAfter, laborAfter, pricesAfter),
+    frontierBefore: calculateWageProfitFrontier(matrix, laborBefore, totalOutputs, maxProfitRateBefore, numeraire, options),
+    frontierAfter: calculateWageProfitFrontier(matrixAfter, laborAfter, totalOutputs, maxProfitRateAfter, numeraire, options),
+    okishioHolds: costReducing && profitRateBefore !== null && profitRateAfter !== null
+      ? profitRateAfter >= profitRateBefore - 1e-9
+      : null
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AlternativeMethod, Commodity } from '../types';
+import { MAX_TECHNIQUES, analyzeChoiceOfTechnique, countTechniques, enumerateTechniques } from './technique';
+import { WHEAT_IRON } from '../test/fixtures';
+
+const { commodities, matrix } = WHEAT_IRON;
+
+const alternatives = (industry: number, count: number, firstId: number): AlternativeMethod[] =>
+  Array.from({ length: count }, (_, k) => ({
+    id: firstId + k,
+    industry,
+    name: `method ${firstId + k}`,
+    inputs: matrix.map(row => row[industry] * (1 + k / 100)),
+    laborInput: commodities[industry].laborInput
+  }));
+
+describe('enumerateTechniques', () => {
+  it('builds one technique per combination of methods', () => {
+    const alts = [...alternatives(0, 2, 1), ...alternatives(1, 1, 3)];
+    expect(countTechniques(2, alts)).toBe(6);
+    expect(enumerateTechniques(commodities, matrix, alts)).toHaveLength(6);
+  });
+
+  it('stops at MAX_TECHNIQUES while the count keeps every combination', () => {
+    const alts = [...alternatives(0, 16, 1), ...alternatives(1, 16, 17)];
+    expect(countTechniques(2, alts)).toBe(17 * 17);
+    expect(enumerateTechniques(commodities, matrix, alts)).toHaveLength(MAX_TECHNIQUES);
+  });
+});
+
+// Samuelson's (1966) reswitching example as a chain of intermediate goods. Wheat made with A
+// costs 7 hours applied one period back, wheat made with B 6 hours directly and 2 hours two
+// periods back: 7(1+r) = 6 + 2(1+r)^2 at r = 50% and r = 100%. Wheat also uses a quarter of its
+// own output under both methods, so R = 300% and the switch points stay where they are.
+const CHAIN: Commodity[] = ['Wheat', 'A1', 'B1', 'B2'].map((name, i) => ({
+  id: i + 1,
+  name,
+  totalOutput: 1,
+  laborInput: [0, 7, 0, 2][i]
+}));
+const CHAIN_MATRIX = [
+  [0.25, 0, 0, 0],
+  [1, 0, 0, 0],
+  [0, 0, 0, 0],
+  [0, 0, 1, 0]
+];
+const wheatFrom = (input: number, laborInput: number): AlternativeMethod => ({
+  id: 1,
+  industry: 0,
+  name: 'Wheat from B',
+  inputs: CHAIN_MATRIX.map((_, i) => (i === 0 ? 0.25 : i === input ? 1 : 0)),
+  laborInput
+});
+
+describe('analyzeChoiceOfTechnique', () => {
+  it('finds the double switch of the reswitching example', () => {
+    const analysis = analyzeChoiceOfTechnique(CHAIN, CHAIN_MATRIX, [wheatFrom(2, 6)], 0);
+    expect(analysis.switchPoints.map(sp => [sp.from, sp.to])).toEqual([[0, 1], [1, 0]]);
+    expect(analysis.switchPoints[0].r).toBeCloseTo(0.5, 6);
+    expect(analysis.switchPoints[1].r).toBeCloseTo(1, 6);
+    expect(analysis.reswitching).toEqual([0]);
+
+    // The return to A at r = 100% is towards more capital per worker
+    expect(analysis.switchPoints.map(sp => sp.capitalReversing)).toEqual([false, true]);
+    expect(analysis.capitalReversing).toBe(true);
+  });
+
+  it('finds no switch when the alternative is dominated', () => {
+    const analysis = analyzeChoiceOfTechnique(CHAIN, CHAIN_MATRIX, [{ ...wheatFrom(1, 1), name: 'Wheat from A, more labour' }], 0);
+    expect(analysis.envelope.every(e => e.technique === 0)).toBe(true);
+    expect(analysis.switchPoints).toEqual([]);
+    expect(analysis.reswitching).toEqual([]);
+    expect(analysis.capitalReversing).toBe(false);
+  });
+});
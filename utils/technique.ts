@@ -0,0 +1,170 @@
+import {
+  AlternativeMethod,
+  ChoiceOfTechniqueAnalysis,
+  Commodity,
+  InputMatrix,
+  SwitchPoint,
+  Technique
+} from '../types';
+import { calculateMaxProfitRate, calculateSraffianPrices } from './math';
+
+// Enumerating every combination grows multiplicatively with the number of alternatives
+export const MAX_TECHNIQUES = 256;
+
+/**
+ * Number of techniques the methods admit: the product over industries of one plus the
+ * number of alternatives.
+ */
+export const countTechniques = (n: number, alternatives: AlternativeMethod[]): number =>
+  Array.from({ length: n }, (_, j) => 1 + alternatives.filter(a => a.industry === j).length)
+    .reduce((p, k) => p * k, 1);
+
+/**
+ * Builds every technique: one method per industry, chosen among the method in the input
+ * table and that industry's alternatives. Beyond MAX_TECHNIQUES the remaining combinations
+ * are dropped.
+ */
+export const enumerateTechniques = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  alternatives: AlternativeMethod[]
+): Technique[] => {
+  const n = commodities.length;
+  const options: (AlternativeMethod | null)[][] = commodities.map((_, j) => [
+    null,
+    ...alternatives.filter(a => a.industry === j)
+  ]);
+  const totalOutputs = commodities.map(c => c.totalOutput);
+
+  let combos: (AlternativeMethod | null)[][] = [[]];
+  for (let j = 0; j < n; j++) {
+    combos = combos.flatMap(combo => options[j].map(m => [...combo, m]));
+    if (combos.length > MAX_TECHNIQUES) combos = combos.slice(0, MAX_TECHNIQUES);
+  }
+
+  return combos.map(combo => {
+    const techMatrix = matrix.map((row, i) => row.map((q, j) => (combo[j] ? combo[j]!.inputs[i] ?? 0 : q)));
+    const laborVector = commodities.map((c, j) => (combo[j] ? combo[j]!.laborInput : c.laborInput));
+    const altNames = combo.filter((m): m is AlternativeMethod => m !== null).map(m => m.name);
+
+    return {
+      label: altNames.length ? altNames.join(' + ') : 'Base technique',
+      methods: combo.map(m => (m ? m.id : null)),
+      matrix: techMatrix,
+      laborVector,
+      maxProfitRate: calculateMaxProfitRate(techMatrix, totalOutputs)
+    };
+  });
+};
+
+/**
+ * Wage of a technique at r, with the price of the numeraire commodity equal to 1.
+ */
+const techniqueWage = (technique: Technique, totalOutputs: number[], r: number, numeraire: number): number | null => {
+  if (r > technique.maxProfitRate) return null;
+  const { prices } = calculateSraffianPrices(technique.matrix, technique.laborVector, totalOutputs, r, 1.0);
+  const pNum = prices[numeraire];
+  if (!prices.length || !pNum || pNum <= 0) return null;
+  return 1 / pNum;
+};
+
+/**
+ * Value of the means of production per worker, at the prices of a technique with w = 1.
+ */
+const capitalPerWorker = (technique: Technique, totalOutputs: number[], r: number, numeraire: number): number => {
+  const { prices } = calculateSraffianPrices(technique.matrix, technique.laborVector, totalOutputs, r, 1.0);
+  const pNum = prices[numeraire] || 1;
+  const capital = technique.matrix.reduce(
+    (s, row, i) => s + (prices[i] / pNum) * row.reduce((t, q) => t + q, 0),
+    0
+  );
+  const labor = technique.laborVector.reduce((s, l) => s + l, 0);
+  return labor > 0 ? capital / labor : 0;
+};
+
+/**
+ * Chooses the cost-minimising technique at every r: the one paying the highest wage in terms
+ * of the numeraire, i.e. the outer envelope of the wage-profit curves. Switch points are located
+ * on a grid and refined by bisection. A technique that returns to the envelope after being
+ * abandoned is reswitching; a switch towards a more capital-intensive technique as r rises
+ * is capital reversing.
+ */
+export const analyzeChoiceOfTechnique = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  alternatives: AlternativeMethod[],
+  numeraire: number,
+  steps: number = 200
+): ChoiceOfTechniqueAnalysis => {
+  const totalOutputs = commodities.map(c => c.totalOutput);
+  const techniques = enumerateTechniques(commodities, matrix, alternatives);
+  const totalTechniques = countTechniques(commodities.length, alternatives);
+  const maxR = Math.max(0, ...techniques.map(t => t.maxProfitRate));
+
+  const wagesAt = (r: number) => techniques.map(t => techniqueWage(t, totalOutputs, r, numeraire));
+  const best = (wages: (number | null)[]) =>
+    wages.reduce<number>((b, w, k) => (w !== null && (b === -1 || w > (wages[b] as number) + 1e-12) ? k : b), -1);
+
+  const curves: { r: number; wages: (number | null)[] }[] = [];
+  const envelope: { r: number; wage: number; technique: number }[] = [];
+
+  for (let k = 0; k <= steps; k++) {
+    const r = k === steps ? maxR * (1 - 1e-6) : (maxR * k) / steps;
+    const wages = wagesAt(r);
+    curves.push({ r, wages });
+    const b = best(wages);
+    if (b !== -1) envelope.push({ r, wage: wages[b] as number, technique: b });
+  }
+
+  const switchPoints: SwitchPoint[] = [];
+  for (let k = 1; k < envelope.length; k++) {
+    const from = envelope[k - 1].technique;
+    const to = envelope[k].technique;
+    if (from === to) continue;
+
+    // Bisection on w_from(r) - w_to(r)
+    let lo = envelope[k - 1].r;
+    let hi = envelope[k].r;
+    for (let iter = 0; iter < 50; iter++) {
+      const mid = (lo + hi) / 2;
+      const wFrom = techniqueWage(techniques[from], totalOutputs, mid, numeraire);
+      const wTo = techniqueWage(techniques[to], totalOutputs, mid, numeraire);
+      if (wFrom !== null && (wTo === null || wFrom >= wTo)) lo = mid;
+      else hi = mid;
+    }
+    const r = (lo + hi) / 2;
+    const capitalPerWorkerFrom = capitalPerWorker(techniques[from], totalOutputs, r, numeraire);
+    const capitalPerWorkerTo = capitalPerWorker(techniques[to], totalOutputs, r, numeraire);
+
+    switchPoints.push({
+      r,
+      wage: techniqueWage(techniques[from], totalOutputs, r, numeraire) ?? 0,
+      from,
+      to,
+      capitalPerWorkerFrom,
+      capitalPerWorkerTo,
+      capitalReversing: capitalPerWorkerTo > capitalPerWorkerFrom + 1e-9
+    });
+  }
+
+  // Techniques appearing on the envelope in more than one interval
+  const intervals = new Map<number, number>();
+  envelope.forEach((e, k) => {
+    if (k === 0 || envelope[k - 1].technique !== e.technique) {
+      intervals.set(e.technique, (intervals.get(e.technique) ?? 0) + 1);
+    }
+  });
+  const reswitching = [...intervals.entries()].filter(([, count]) => count > 1).map(([t]) => t);
+
+  return {
+    techniques,
+    numeraire,
+    curves,
+    envelope,
+    switchPoints,
+    reswitching,
+    capitalReversing: switchPoints.some(s => s.capitalReversing),
+    totalTechniques,
+    truncated: totalTechniques > techniques.length
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSraffianPrices } from './math';
+import { analyzeLabourValues, calculateLabourValues } from './values';
+import { WHEAT_IRON } from '../test/fixtures';
+
+const { commodities, matrix } = WHEAT_IRON;
+const labour = commodities.map(c => c.laborInput);
+const outputs = commodities.map(c => c.totalOutput);
+const values = calculateLabourValues(matrix, labour, outputs);
+
+const profitsAt = (prices: number[], rates: number[]) =>
+  rates.reduce((s, r, j) => s + r * matrix.reduce((c, row, i) => c + prices[i] * row[j], 0), 0);
+
+describe('analyzeLabourValues', () => {
+  it('takes profits at the uniform rate', () => {
+    const { prices } = calculateSraffianPrices(matrix, labour, outputs, 0.15, 1);
+    const analysis = analyzeLabourValues(commodities, matrix, prices, 1, 0.15, values);
+    const [byPrice] = analysis!.normalisations;
+    expect(byPrice.totalProfit / byPrice.scale).toBeCloseTo(profitsAt(prices, [0.15, 0.15]), 9);
+  });
+
+  it('takes each industry at its own rate under a hierarchy', () => {
+    const profitFactors = [1.5, 0.5];
+    const { prices } = calculateSraffianPrices(matrix, labour, outputs, 0.15, 1, { profitFactors });
+    const analysis = analyzeLabourValues(commodities, matrix, prices, 1, 0.15, values, null, 'postFactum', profitFactors);
+    const [byPrice] = analysis!.normalisations;
+    expect(byPrice.totalProfit / byPrice.scale).toBeCloseTo(profitsAt(prices, [0.225, 0.075]), 9);
+    expect(byPrice.totalProfit / byPrice.scale).not.toBeCloseTo(profitsAt(prices, [0.15, 0.15]), 3);
+  });
+});
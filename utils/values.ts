@@ -0,0 +1,94 @@
+import { Commodity, InputMatrix, LabourValueAnalysis, OutputMatrix, ProductionOptions, ValueNormalisation, WageClosure } from '../types';
+import { calculateSraffianPrices, industryProfitRates } from './math';
+import { calculateNetProduct } from './numeraire';
+import { calculateDistribution } from './profitRates';
+
+/**
+ * Vertically integrated labour coefficients lambda = l(I - A)^-1.
+ * These are the prices of production at r = 0 with the wage as unit; under joint
+ * production they solve lambda B = lambda A + L and may be negative.
+ */
+export const calculateLabourValues = (
+  physicalMatrix: number[][],
+  laborVector: number[],
+  totalOutputs: number[],
+  options: ProductionOptions = {}
+): number[] => calculateSraffianPrices(physicalMatrix, laborVector, totalOutputs, 0, 1.0, options).prices;
+
+const dot = (x: number[], y: number[]): number => x.reduce((s, xi, i) => s + xi * (y[i] || 0), 0);
+
+/**
+ * Compares labour values with prices of production.
+ * The wage is converted into labour time by the value of the net product at prices and
+ * at values, so v + s = L in every industry and the aggregate wage share is the same in
+ * both accounts. Price totals are then set against value totals under three normalisations.
+ * With a hierarchy of profit rates, each industry's profit is taken at its own rate.
+ */
+export const analyzeLabourValues = (
+  commodities: Commodity[],
+  matrix: InputMatrix,
+  prices: number[],
+  wage: number,
+  r: number,
+  values: number[],
+  outputMatrix: OutputMatrix | null = null,
+  wageClosure: WageClosure = 'postFactum',
+  profitFactors: number[] | null = null
+): LabourValueAnalysis | null => {
+  const n = commodities.length;
+  if (prices.length !== n || values.length !== n) return null;
+
+  const column = (M: number[][], j: number) => M.map(row => row[j]);
+  const grossOutput = commodities.map((c, i) =>
+    outputMatrix ? outputMatrix[i].reduce((s, b) => s + b, 0) : c.totalOutput
+  );
+  const netProduct = calculateNetProduct(commodities, matrix, outputMatrix);
+
+  const netAtPrices = dot(prices, netProduct);
+  const netAtValues = dot(values, netProduct);
+  const valueOfLabourPower = netAtPrices !== 0 ? (wage * netAtValues) / netAtPrices : 0;
+
+  const constantCapital = commodities.map((_, j) => dot(values, column(matrix, j)));
+  const variableCapital = commodities.map(c => valueOfLabourPower * c.laborInput);
+  const surplusValue = commodities.map((c, j) => c.laborInput - variableCapital[j]);
+  const organicComposition = variableCapital.map((v, j) => (Math.abs(v) > 1e-12 ? constantCapital[j] / v : null));
+
+  const totalPrice = dot(prices, grossOutput);
+  const totalValue = dot(values, grossOutput);
+  const rates = industryProfitRates(r, n, { profitFactors });
+  const { totalWages, totalProfits: totalProfit } = calculateDistribution(
+    matrix, commodities.map(c => c.laborInput), prices, wage, rates, { wageClosure }
+  );
+  const totalSurplusValue = surplusValue.reduce((s, x) => s + x, 0);
+  const totalVariableCapital = variableCapital.reduce((s, x) => s + x, 0);
+
+  const normalise = (label: string, scale: number): ValueNormalisation => ({
+    label,
+    scale,
+    totalPrice: scale * totalPrice,
+    totalValue,
+    totalProfit: scale * totalProfit,
+    totalSurplusValue,
+    totalWages: scale * totalWages,
+    totalVariableCapital
+  });
+
+  const normalisations: ValueNormalisation[] = [];
+  if (totalPrice !== 0) normalisations.push(normalise('Total price = total value', totalValue / totalPrice));
+  if (totalProfit !== 0) normalisations.push(normalise('Total profit = total surplus value', totalSurplusValue / totalProfit));
+  if (netAtPrices !== 0) normalisations.push(normalise('Net product price = net product value', netAtValues / netAtPrices));
+
+  const grossScale = totalPrice !== 0 ? totalValue / totalPrice : 1;
+  const priceValueRatios = prices.map((p, i) => (Math.abs(values[i]) > 1e-12 ? (grossScale * p) / values[i] : null));
+
+  return {
+    values,
+    priceValueRatios,
+    constantCapital,
+    variableCapital,
+    surplusValue,
+    organicComposition,
+    valueOfLabourPower,
+    normalisations
+  };
+};